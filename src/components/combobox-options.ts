@@ -0,0 +1,137 @@
+// Options, matching and asynchronous loading for the Combobox.
+import { useEffect, useRef, useState } from 'react';
+
+// One option in the list.
+// value: Identifies the option. Unique within a combobox.
+// label: The text shown in the list and in the field.
+// description: Secondary text shown under the label.
+// disabled: Shown, but can't be selected.
+export interface ComboboxOption {
+  value: string;
+  label: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+// Loads the options that match a query, e.g. from an API. The signal is
+// aborted when a newer query supersedes this one, and can be passed to fetch.
+export type LoadOptions = (query: string, signal: AbortSignal) => Promise<ComboboxOption[]>;
+
+// A part of a label, marked when it matches the query.
+export interface LabelSegment {
+  text: string;
+  match: boolean;
+}
+
+const normalize = (text: string) => text.trim().toLocaleLowerCase();
+
+/**
+ * Keeps the options whose label contains the query, ignoring case.
+ * @param {ComboboxOption[]} options - All options.
+ * @param {string} query - The text typed in the field.
+ * @returns {ComboboxOption[]} The matching options, in their original order.
+ */
+export const filterOptions = (options: ComboboxOption[], query: string): ComboboxOption[] => {
+  const needle = normalize(query);
+  return needle === '' ? options : options.filter((option) => normalize(option.label).includes(needle));
+};
+
+/**
+ * Splits a label around the first match of the query, for highlighting.
+ * @param {string} label - The option's label.
+ * @param {string} query - The text typed in the field.
+ * @returns {LabelSegment[]} The label's parts. A single unmarked part when nothing matches.
+ */
+export const splitLabel = (label: string, query: string): LabelSegment[] => {
+  const needle = normalize(query);
+  const start = needle === '' ? -1 : label.toLocaleLowerCase().indexOf(needle);
+  if (start === -1) {
+    return [{ text: label, match: false }];
+  }
+  const end = start + needle.length;
+  return [
+    { text: label.slice(0, start), match: false },
+    { text: label.slice(start, end), match: true },
+    { text: label.slice(end), match: false },
+  ].filter((segment) => segment.text !== '');
+};
+
+/**
+ * Checks whether a query matches an option's label exactly, ignoring case,
+ * so the combobox only offers to create options that don't exist yet.
+ * @param {ComboboxOption[]} options - The options to check.
+ * @param {string} query - The text typed in the field.
+ * @returns {boolean} Whether an option has the query as its label.
+ */
+export const hasExactMatch = (options: ComboboxOption[], query: string): boolean =>
+  options.some((option) => normalize(option.label) === normalize(query));
+
+// The state exposed by useLoadedOptions.
+export interface LoadedOptionsState {
+  options: ComboboxOption[];
+  loading: boolean;
+  error: unknown;
+}
+
+/**
+ * Loads options for a query once typing pauses. When the query changes, the
+ * pending request is aborted and its response ignored, so a slow answer to
+ * an old query never replaces the options for the current one.
+ * @param {LoadOptions | undefined} loadOptions - The loader. When undefined, nothing is loaded.
+ * @param {string} query - The text typed in the field.
+ * @param {boolean} enabled - Whether to load, e.g. only while the list is open.
+ * @param {number} delay - How long typing must pause before loading, in milliseconds.
+ * @returns {LoadedOptionsState} The latest options and request state.
+ */
+export const useLoadedOptions = (
+  loadOptions: LoadOptions | undefined,
+  query: string,
+  enabled: boolean,
+  delay: number
+): LoadedOptionsState => {
+  const [options, setOptions] = useState<ComboboxOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  // Keep the latest loader in a ref, so parents can pass inline functions
+  // without starting a request on every render.
+  const loadRef = useRef(loadOptions);
+  loadRef.current = loadOptions;
+  const canLoad = Boolean(loadOptions);
+
+  useEffect(() => {
+    if (!canLoad || !enabled) {
+      setLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(() => {
+      loadRef.current?.(query, controller.signal).then(
+        (result) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setOptions(result);
+          setError(null);
+          setLoading(false);
+        },
+        (reason: unknown) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setError(reason);
+          setLoading(false);
+        }
+      );
+    }, delay);
+
+    // Cancel the request if the query changes or the combobox closes.
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [canLoad, enabled, query, delay]);
+
+  return { options, loading, error };
+};
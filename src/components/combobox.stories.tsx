@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react';
+import { Combobox, ComboboxOption, LoadOptions } from './combobox.tsx';
+
+// This is the metadata for your component.
+const meta: Meta<typeof Combobox> = {
+  title: 'Components/Combobox',
+  component: Combobox,
+  tags: ['autodocs'],
+};
+
+export default meta;
+
+// This defines the type for your stories.
+type Story = StoryObj<typeof Combobox>;
+
+const cities: ComboboxOption[] = [
+  'Amsterdam',
+  'Barcelona',
+  'Berlin',
+  'Buenos Aires',
+  'Cairo',
+  'Cape Town',
+  'Copenhagen',
+  'Lisbon',
+  'London',
+  'Los Angeles',
+  'Madrid',
+  'Melbourne',
+  'Mexico City',
+  'Montreal',
+  'Nairobi',
+  'New York',
+  'Oslo',
+  'Paris',
+  'Rome',
+  'San Francisco',
+  'São Paulo',
+  'Seoul',
+  'Singapore',
+  'Stockholm',
+  'Sydney',
+  'Tokyo',
+  'Toronto',
+  'Vienna',
+].map((city) => ({ value: city.toLowerCase().replace(/\s+/g, '-'), label: city }));
+
+const users: ComboboxOption[] = [
+  { value: 'ada', label: 'Ada Lovelace', description: 'ada@example.com' },
+  { value: 'alan', label: 'Alan Turing', description: 'alan@example.com' },
+  { value: 'barbara', label: 'Barbara Liskov', description: 'barbara@example.com' },
+  { value: 'donald', label: 'Donald Knuth', description: 'donald@example.com' },
+  { value: 'edsger', label: 'Edsger Dijkstra', description: 'edsger@example.com', disabled: true },
+  { value: 'grace', label: 'Grace Hopper', description: 'grace@example.com' },
+  { value: 'ken', label: 'Ken Thompson', description: 'ken@example.com' },
+  { value: 'margaret', label: 'Margaret Hamilton', description: 'margaret@example.com' },
+];
+
+// Simulate an API that answers after a delay, honouring the abort signal.
+const searchUsers: LoadOptions = (query, signal) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const needle = query.trim().toLowerCase();
+      resolve(users.filter((user) => `${user.label} ${user.description}`.toLowerCase().includes(needle)));
+    }, 400 + Math.random() * 600);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+
+/**
+ * A story demonstrating a combobox with static options. Type to filter the
+ * list; the matched text is highlighted.
+ */
+export const Default: Story = {
+  args: {
+    label: 'City',
+    placeholder: 'Search cities',
+    options: cities,
+    helperText: 'Where the event takes place.',
+  },
+};
+
+/**
+ * A story demonstrating options loaded from a slow API. Requests start once
+ * typing pauses, and answers to outdated queries are dropped.
+ */
+export const AsyncOptions: Story = {
+  args: {
+    label: 'Assignee',
+    placeholder: 'Search people',
+    loadOptions: searchUsers,
+    minQueryLength: 1,
+  },
+};
+
+/**
+ * A story demonstrating multi-select with removable chips, and creating tags
+ * that don't exist yet.
+ */
+export const TagsWithCreate: Story = {
+  render: () => {
+    const TagField = () => {
+      const [tags, setTags] = useState<ComboboxOption[]>([
+        { value: 'design', label: 'design' },
+        { value: 'frontend', label: 'frontend' },
+      ]);
+      const [knownTags, setKnownTags] = useState<ComboboxOption[]>(
+        ['backend', 'bug', 'design', 'docs', 'frontend', 'performance'].map((tag) => ({ value: tag, label: tag }))
+      );
+      return (
+        <div>
+          <Combobox
+            label="Tags"
+            placeholder="Add a tag"
+            multiple
+            options={knownTags}
+            value={tags}
+            onChange={setTags}
+            onCreateOption={(label) => {
+              const tag = { value: label.toLowerCase(), label: label.toLowerCase() };
+              setKnownTags((current) => [...current, tag]);
+              return tag;
+            }}
+          />
+          <p className="text-sm text-gray-500">Tags: {tags.map((tag) => tag.value).join(', ') || '(none)'}</p>
+        </div>
+      );
+    };
+    return <TagField />;
+  },
+};
+
+/**
+ * A story showing the combobox in the InputField's variants and sizes.
+ */
+export const VariantsAndSizes: Story = {
+  render: () => (
+    <div>
+      <Combobox label="Outlined, small" options={cities} size="sm" />
+      <Combobox label="Filled" options={cities} variant="filled" />
+      <Combobox label="Ghost, large" options={cities} variant="ghost" size="lg" />
+    </div>
+  ),
+};
+
+/**
+ * A story demonstrating an invalid combobox with an error message.
+ */
+export const Invalid: Story = {
+  args: {
+    label: 'City',
+    options: cities,
+    required: true,
+    invalid: true,
+    errorMessage: 'Choose a city.',
+  },
+};
@@ -0,0 +1,411 @@
+import React, { useEffect, useId, useLayoutEffect, useRef, useState } from 'react';
+import { CheckIcon, ChevronDownIcon, PlusIcon, XIcon } from 'lucide-react';
+import { twMerge } from 'tailwind-merge';
+import { useControllableState } from '@/lib/hooks';
+import { ComboboxOption, filterOptions, hasExactMatch, LoadOptions, splitLabel, useLoadedOptions } from './combobox-options.ts';
+import { InputField, InputFieldProps } from './inputfield.tsx';
+
+export type { ComboboxOption, LoadOptions } from './combobox-options.ts';
+
+// The selection props. With `multiple`, the value is a list of options shown
+// as removable chips; otherwise it is a single option or null.
+export type ComboboxSelectionProps =
+  | {
+      multiple?: false;
+      value?: ComboboxOption | null;
+      defaultValue?: ComboboxOption | null;
+      onChange?: (value: ComboboxOption | null) => void;
+    }
+  | {
+      multiple: true;
+      value?: ComboboxOption[];
+      defaultValue?: ComboboxOption[];
+      onChange?: (value: ComboboxOption[]) => void;
+    };
+
+// Define the component's props. The field props work as on InputField.
+// options: The options to choose from, filtered as the user types.
+// loadOptions: Loads matching options instead, e.g. from an API, once
+//   typing pauses for `debounce` milliseconds (300 by default).
+// minQueryLength: How many characters to type before options are loaded.
+// onCreateOption: Offers to create an option from the typed text when no
+//   option has it as its label. Return the new option, or a promise of it,
+//   and it is selected. If the promise rejects, the field shows an error.
+// name: Submits the selected values with a form, one hidden input each.
+export type ComboboxProps = Pick<
+  InputFieldProps,
+  'id' | 'label' | 'placeholder' | 'helperText' | 'errorMessage' | 'invalid' | 'required' | 'optional' | 'disabled' | 'variant' | 'size'
+> & {
+  name?: string;
+  options?: ComboboxOption[];
+  loadOptions?: LoadOptions;
+  debounce?: number;
+  minQueryLength?: number;
+  onCreateOption?: (label: string) => ComboboxOption | Promise<ComboboxOption>;
+} & ComboboxSelectionProps;
+
+// An entry in the list: an option, or the entry that creates one.
+type ComboboxItem = { type: 'option'; option: ComboboxOption } | { type: 'create'; label: string };
+
+const toList = (value: ComboboxOption | ComboboxOption[] | null | undefined) =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+/**
+ * A text field with a list of suggestions to pick from, as the user types.
+ * Options can be static or loaded asynchronously, and the field can hold one
+ * option or several as chips. Follows the ARIA combobox pattern: arrow keys
+ * move through the list, Enter selects and Escape closes it.
+ * @param {ComboboxProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered Combobox component.
+ */
+export const Combobox = (props: ComboboxProps): JSX.Element => {
+  const {
+    id,
+    name,
+    label,
+    placeholder,
+    helperText,
+    errorMessage,
+    invalid,
+    required,
+    optional,
+    disabled,
+    variant,
+    size,
+    options: staticOptions = [],
+    loadOptions,
+    debounce = 300,
+    minQueryLength = 0,
+    onCreateOption,
+  } = props;
+  const isMultiple = props.multiple === true;
+
+  // Keep the selection as a list in both modes.
+  const [selected, setSelected] = useControllableState<ComboboxOption[]>(
+    props.value === undefined ? undefined : toList(props.value),
+    toList(props.defaultValue),
+    (next) => {
+      if (props.multiple) {
+        props.onChange?.(next);
+      } else {
+        props.onChange?.(next[0] ?? null);
+      }
+    }
+  );
+  const selectedValues = new Set(selected.map((option) => option.value));
+
+  // The latest selection, for selecting an option once it has been created.
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
+  // Set as soon as a create starts, so a second Enter before the next
+  // render doesn't create the option twice.
+  const creating = useRef(false);
+
+  // The text in the field. A single combobox shows the selected label while
+  // the user isn't typing.
+  const [isOpen, setIsOpen] = useState(false);
+  const [isTyping, setIsTyping] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const selectedLabel = !isMultiple && selected.length > 0 ? selected[0].label : '';
+  const inputValue = isTyping || isMultiple ? query : selectedLabel;
+  const search = isTyping ? query : '';
+
+  const canSearch = search.trim().length >= minQueryLength;
+  const loaded = useLoadedOptions(loadOptions, search, isOpen && canSearch, debounce);
+  const options = loadOptions ? (canSearch ? loaded.options : []) : filterOptions(staticOptions, search);
+  const items: ComboboxItem[] = options.map((option) => ({ type: 'option', option }));
+  if (onCreateOption && search.trim() !== '' && !hasExactMatch([...options, ...selected], search)) {
+    items.push({ type: 'create', label: search.trim() });
+  }
+  const isEnabled = (item: ComboboxItem) => item.type === 'create' || !item.option.disabled;
+  const active = activeIndex < items.length && isEnabled(items[activeIndex]) ? activeIndex : -1;
+
+  const generatedId = useId();
+  const inputId = id ?? generatedId;
+  const listboxId = `${inputId}-listbox`;
+  const getOptionId = (index: number) => `${listboxId}-${index}`;
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Place the list under the field itself, above the helper text.
+  const [listTop, setListTop] = useState<number>();
+  useLayoutEffect(() => {
+    const field = inputRef.current?.parentElement;
+    if (isOpen && field) {
+      setListTop(field.offsetTop + field.offsetHeight);
+    }
+  }, [isOpen, selected.length]);
+
+  // Keep the active option in view while moving through a long list.
+  useEffect(() => {
+    if (isOpen && active !== -1) {
+      document.getElementById(getOptionId(active))?.scrollIntoView({ block: 'nearest' });
+    }
+  });
+
+  const close = () => {
+    setIsOpen(false);
+    setIsTyping(false);
+    setQuery('');
+  };
+
+  // Leaving a single combobox with its text deleted clears the selection.
+  const handleBlur = () => {
+    if (!isMultiple && isTyping && query.trim() === '' && selected.length > 0) {
+      setSelected([]);
+    }
+    close();
+  };
+
+  // Moves to the next enabled item in a direction, wrapping at the ends.
+  const moveActive = (step: 1 | -1) => {
+    for (let offset = 1; offset <= items.length; offset++) {
+      const index = (Math.max(active, step === 1 ? -1 : 0) + step * offset + items.length) % items.length;
+      if (isEnabled(items[index])) {
+        setActiveIndex(index);
+        return;
+      }
+    }
+  };
+
+  const selectOption = (option: ComboboxOption) => {
+    if (!isMultiple) {
+      setSelected([option]);
+      close();
+      return;
+    }
+    const current = selectedRef.current;
+    setSelected(
+      current.some((item) => item.value === option.value)
+        ? current.filter((item) => item.value !== option.value)
+        : [...current, option]
+    );
+    // Stay open to pick more, starting a new search.
+    setQuery('');
+    setIsTyping(false);
+  };
+
+  const removeOption = (option: ComboboxOption) => {
+    setSelected(selected.filter((item) => item.value !== option.value));
+    inputRef.current?.focus();
+  };
+
+  const chooseItem = async (item: ComboboxItem) => {
+    if (item.type === 'option') {
+      selectOption(item.option);
+      return;
+    }
+    if (!onCreateOption || creating.current) {
+      return;
+    }
+    creating.current = true;
+    setIsCreating(true);
+    setCreateError(null);
+    try {
+      selectOption(await onCreateOption(item.label));
+    } catch {
+      setCreateError(`Couldn't create "${item.label}".`);
+    } finally {
+      creating.current = false;
+      setIsCreating(false);
+    }
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(event.target.value);
+    setIsTyping(true);
+    setIsOpen(true);
+    setActiveIndex(0);
+    setCreateError(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        event.preventDefault();
+        if (!isOpen) {
+          setIsOpen(true);
+          setActiveIndex(0);
+        } else if (items.length > 0) {
+          moveActive(event.key === 'ArrowDown' ? 1 : -1);
+        }
+        break;
+      case 'Enter':
+        if (isOpen && active !== -1) {
+          event.preventDefault();
+          void chooseItem(items[active]);
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          event.preventDefault();
+          close();
+        }
+        break;
+      case 'Backspace':
+        // Backspace in an empty field removes the last chip.
+        if (isMultiple && query === '' && selected.length > 0) {
+          setSelected(selected.slice(0, -1));
+        }
+        break;
+    }
+  };
+
+  const chips =
+    isMultiple && selected.length > 0 ? (
+      <ul aria-label="Selected options" className="flex max-w-[60%] flex-wrap gap-1 py-1">
+        {selected.map((option) => (
+          <li
+            key={option.value}
+            className="flex items-center rounded-full bg-gray-100 py-0.5 pl-2 pr-1 text-sm text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+          >
+            <span className="truncate">{option.label}</span>
+            <button
+              type="button"
+              className="ml-1 rounded-full p-0.5 text-gray-500 hover:bg-gray-200 hover:text-gray-700 disabled:cursor-not-allowed dark:text-gray-400 dark:hover:bg-gray-600 dark:hover:text-gray-200"
+              onClick={() => removeOption(option)}
+              disabled={disabled}
+              aria-label={`Remove ${option.label}`}
+            >
+              <XIcon aria-hidden="true" className="h-3 w-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    ) : undefined;
+
+  // What to say when there is nothing to pick.
+  let message: string | null = null;
+  if (!canSearch) {
+    message = `Type at least ${minQueryLength} ${minQueryLength === 1 ? 'character' : 'characters'} to search.`;
+  } else if (loadOptions && loaded.error) {
+    message = "Couldn't load options.";
+  } else if (loadOptions && loaded.loading && items.length === 0) {
+    message = 'Loading...';
+  } else if (items.length === 0) {
+    message = 'No options found.';
+  }
+
+  const optionClasses = 'flex cursor-pointer items-center space-x-2 px-3 py-2';
+
+  return (
+    <div className="relative">
+      <InputField
+        ref={inputRef}
+        id={inputId}
+        label={label}
+        placeholder={placeholder}
+        helperText={helperText}
+        errorMessage={createError ?? errorMessage}
+        invalid={invalid || createError !== null}
+        required={required}
+        optional={optional}
+        disabled={disabled}
+        variant={variant}
+        size={size}
+        value={inputValue}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onClick={() => setIsOpen(true)}
+        onBlur={handleBlur}
+        loading={Boolean(loadOptions) && isOpen && loaded.loading}
+        startAdornment={chips}
+        endAdornment={<ChevronDownIcon aria-hidden="true" className="h-4 w-4" />}
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={listboxId}
+        aria-activedescendant={isOpen && active !== -1 ? getOptionId(active) : undefined}
+      />
+      {name && selected.map((option) => <input key={option.value} type="hidden" name={name} value={option.value} />)}
+
+      {/* Clicks in the list keep focus in the field. */}
+      <div
+        hidden={!isOpen}
+        style={{ top: listTop }}
+        className="absolute inset-x-0 z-20 mt-1 overflow-hidden rounded-lg border border-gray-200 bg-white text-sm text-gray-700 shadow-lg dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300"
+        onMouseDown={(event) => event.preventDefault()}
+      >
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={label}
+          aria-multiselectable={isMultiple || undefined}
+          className="max-h-60 overflow-auto"
+        >
+          {isOpen &&
+            items.map((item, index) => {
+              const isActive = index === active;
+              if (item.type === 'create') {
+                return (
+                  <li
+                    key="create"
+                    id={getOptionId(index)}
+                    role="option"
+                    aria-selected={false}
+                    className={twMerge(optionClasses, 'border-t border-gray-100 dark:border-gray-800', isActive ? 'bg-gray-100 dark:bg-gray-800' : '')}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => void chooseItem(item)}
+                  >
+                    <PlusIcon aria-hidden="true" className="h-4 w-4 shrink-0 text-gray-500" />
+                    <span>
+                      {isCreating ? 'Creating' : 'Create'} "{item.label}"
+                    </span>
+                  </li>
+                );
+              }
+              const { option } = item;
+              const isSelected = selectedValues.has(option.value);
+              return (
+                <li
+                  key={option.value}
+                  id={getOptionId(index)}
+                  role="option"
+                  aria-selected={isSelected}
+                  aria-disabled={option.disabled || undefined}
+                  className={twMerge(
+                    optionClasses,
+                    isActive ? 'bg-gray-100 dark:bg-gray-800' : '',
+                    option.disabled ? 'cursor-not-allowed text-gray-400 dark:text-gray-600' : ''
+                  )}
+                  onMouseEnter={() => !option.disabled && setActiveIndex(index)}
+                  onClick={() => !option.disabled && selectOption(option)}
+                >
+                  <CheckIcon
+                    aria-hidden="true"
+                    className={twMerge('h-4 w-4 shrink-0 text-blue-500', isSelected ? '' : 'invisible')}
+                  />
+                  <span className="min-w-0">
+                    <span className="block truncate">
+                      {splitLabel(option.label, search).map((segment, segmentIndex) =>
+                        segment.match ? (
+                          <mark key={segmentIndex} className="bg-transparent font-semibold text-inherit">
+                            {segment.text}
+                          </mark>
+                        ) : (
+                          segment.text
+                        )
+                      )}
+                    </span>
+                    {option.description && (
+                      <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+        </ul>
+        {/* Loading, error and empty messages, announced as they change. */}
+        <p role="status" className={twMerge('px-3 text-gray-500 dark:text-gray-400', message ? 'py-2' : '')}>
+          {isOpen ? message : null}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Combobox;
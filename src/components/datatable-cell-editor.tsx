@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import InputField from './inputfield.tsx';
+import { Column, getColumnLabel, getColumnValue } from './datatable-columns.ts';
+import { isNumericColumn } from './datatable-editing.ts';
+
+// Define the cell editor's props.
+// onCommit: Called with 'enter' when Enter is pressed and 'blur' when focus leaves.
+// onTab: Called when Tab or Shift+Tab is pressed, to move to another cell.
+interface CellEditorContainerProps<T> {
+  column: Column<T>;
+  row: T;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  validating: boolean;
+  onCommit: (source: 'enter' | 'blur') => void;
+  onCancel: () => void;
+  onTab: (backwards: boolean) => void;
+}
+
+/**
+ * Hosts a cell's editor: the column's custom editor, or an InputField.
+ * Enter commits, Escape cancels, Tab moves to the next editable cell and
+ * leaving the cell commits.
+ * @param {CellEditorContainerProps<T>} props - The props for the component.
+ * @returns {JSX.Element} The rendered editor.
+ */
+export const CellEditor = <T,>({
+  column,
+  row,
+  value,
+  onChange,
+  error,
+  validating,
+  onCommit,
+  onCancel,
+  onTab,
+}: CellEditorContainerProps<T>): JSX.Element => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Focus the editor's first field when it opens.
+  useEffect(() => {
+    const field = containerRef.current?.querySelector<HTMLElement>('input, select, textarea');
+    field?.focus();
+    if (field instanceof HTMLInputElement) {
+      field.select();
+    }
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onCommit('enter');
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onCancel();
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      onTab(event.shiftKey);
+    }
+    // Keep the table's own keyboard handling out of the editor.
+    event.stopPropagation();
+  };
+
+  // Commit when focus leaves the editor, but not when it moves within it.
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      onCommit('blur');
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="-my-2"
+      aria-busy={validating}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      {column.editor ? (
+        column.editor({ value, onChange, row, column, error, validating })
+      ) : (
+        <InputField
+          type={isNumericColumn(column, getColumnValue(column, row)) ? 'number' : 'text'}
+          size="sm"
+          aria-label={getColumnLabel(column)}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          invalid={Boolean(error)}
+          errorMessage={error}
+          helperText={validating ? 'Checking...' : undefined}
+        />
+      )}
+    </div>
+  );
+};
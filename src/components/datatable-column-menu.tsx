@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react';
+import { ColumnsIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useDismiss } from '@/lib/hooks';
+import { Column, getColumnLabel } from './datatable-columns.ts';
+import { ColumnPin, ColumnState, emptyColumnState, getColumnPin, orderColumns, setColumnPin, setColumnVisible } from './datatable-layout.ts';
+
+// Define the column menu's props.
+// columnState: The current column layout.
+// onColumnStateChange: Called with the updated layout.
+// defaultColumnState: The layout "Reset columns" restores. Defaults to the
+//   columns as defined.
+export interface DataTableColumnMenuProps<T> {
+  columns: Column<T>[];
+  columnState: ColumnState;
+  onColumnStateChange: (columnState: ColumnState) => void;
+  defaultColumnState?: ColumnState;
+}
+
+/**
+ * A toolbar button that opens a menu to show, hide and pin columns, and to
+ * reset the layout.
+ * @param {DataTableColumnMenuProps<T>} props - The props for the component.
+ * @returns {JSX.Element} The rendered column menu.
+ */
+export const DataTableColumnMenu = <T,>({
+  columns,
+  columnState,
+  onColumnStateChange,
+  defaultColumnState = emptyColumnState,
+}: DataTableColumnMenuProps<T>): JSX.Element => {
+  // Use state to track whether the menu is open.
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on a click outside it or on Escape.
+  useDismiss(menuRef, isOpen, () => setIsOpen(false));
+
+  const hidden = new Set(columnState.hidden);
+  const visibleCount = columns.length - columns.filter((column) => hidden.has(String(column.key))).length;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="outline"
+        leftIcon={<ColumnsIcon />}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Columns
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 rounded-lg border border-gray-200 bg-white p-3 text-sm text-gray-700 shadow-lg dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300">
+          <ul className="max-h-72 space-y-2 overflow-auto">
+            {orderColumns(columns, columnState).map((column) => {
+              const key = String(column.key);
+              const label = getColumnLabel(column);
+              const isVisible = !hidden.has(key);
+              // Keep at least one column on screen.
+              const canHide = column.hideable !== false && (!isVisible || visibleCount > 1);
+              return (
+                <li key={key} className="flex items-center justify-between space-x-2">
+                  <label className="flex min-w-0 items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      className="form-checkbox rounded text-blue-500"
+                      checked={isVisible}
+                      disabled={!canHide}
+                      onChange={(event) => onColumnStateChange(setColumnVisible(columnState, key, event.target.checked))}
+                    />
+                    <span className="truncate">{label}</span>
+                  </label>
+                  <select
+                    aria-label={`Pin ${label}`}
+                    className="h-8 rounded-md border border-gray-300 bg-white px-1 text-xs dark:border-gray-600 dark:bg-gray-800"
+                    value={getColumnPin(column, columnState) || 'none'}
+                    onChange={(event) => {
+                      const pin: ColumnPin = event.target.value === 'none' ? false : (event.target.value as 'left' | 'right');
+                      onColumnStateChange(setColumnPin(columnState, key, pin));
+                    }}
+                  >
+                    <option value="none">Not pinned</option>
+                    <option value="left">Pin left</option>
+                    <option value="right">Pin right</option>
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+          <Button
+            variant="link"
+            size="sm"
+            className="mt-2 h-auto px-0"
+            onClick={() => onColumnStateChange(defaultColumnState)}
+          >
+            Reset columns
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
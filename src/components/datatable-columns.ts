@@ -0,0 +1,251 @@
+import React from 'react';
+import { CellEditorProps, CellValidationResult } from './datatable-editing.ts';
+import { FilterColumn, FilterType } from './datatable-filters.ts';
+import { ColumnAggregate } from './datatable-grouping.ts';
+import { SortColumn, SortType } from './datatable-sort.ts';
+
+// How a column's value is turned into text when no `cell` renderer is given.
+// number / percent / currency: Formatted with Intl.NumberFormat.
+// date / datetime: Formatted with Intl.DateTimeFormat. Strings and numbers are
+//   parsed with `new Date(value)`.
+// A function receives the raw value and the row and returns the text.
+export type ColumnFormat<T> =
+  | { type: 'number' | 'percent'; locale?: string; options?: Intl.NumberFormatOptions }
+  | { type: 'currency'; currency: string; locale?: string; options?: Intl.NumberFormatOptions }
+  | { type: 'date' | 'datetime'; locale?: string; options?: Intl.DateTimeFormatOptions }
+  | ((value: unknown, row: T) => string);
+
+// The arguments passed to a column's `cell` renderer.
+// value: The raw value from the accessor or the row's key.
+// formatted: The value after `format` has been applied.
+export interface CellContext<T> {
+  value: unknown;
+  formatted: string;
+  row: T;
+  rowIndex: number;
+}
+
+// Where a column shows in the card layout used on narrow screens.
+// primary: In the card's title.
+// secondary: As a label and value below the title.
+// hidden: Not shown.
+export type ResponsivePriority = 'primary' | 'secondary' | 'hidden';
+
+// The options shared by every column.
+// header: The header content for the column.
+// cell: Renders the cell content, e.g. badges, links or action buttons.
+// format: Formats the value as a number, currency, percentage or date.
+// align: The horizontal alignment of the header and cells.
+// width: A fixed column width, in pixels or any CSS length.
+// className: Extra classes applied to every cell in the column.
+// sortable: Whether the header sorts the table. Defaults to true.
+// sortType: How values are compared; inferred from the values when omitted.
+// sortFn: A custom ascending comparator, given both values and both rows.
+// filterType: The kind of column filter offered, or false for none. Defaults
+//   to a range for numbers, a date range for dates and text otherwise.
+// filterOptions: The choices for an enum filter. Derived from the data when omitted.
+// searchable: Whether the global search looks at this column. Defaults to true.
+// editable: Whether cells can be edited inline, for all rows or per row.
+//   Double-click a cell to edit it.
+// editor: Renders a custom editor. Defaults to an InputField for text and numbers.
+// validate: Checks a new value, synchronously or asynchronously, and returns
+//   an error message when it is invalid.
+// parseValue: Converts the editor's text into the committed value.
+// exportable: Whether the column is included in exports. Defaults to true;
+//   turn it off for columns without data, such as row actions.
+// exportHeader: The column's name in exports, when the header isn't plain text.
+// pinned: Keeps the column at the left or right edge during horizontal
+//   scrolling, e.g. for identity or action columns. Users can change it.
+// hideable: Whether the column can be hidden from the column menu. Defaults to true.
+// resizable: Whether the column can be resized when the table allows it. Defaults to true.
+// aggregate: Summarizes the column in group headers and the footer, e.g. 'sum'.
+//   The result is shown with the column's `format`, except for counts.
+// responsive: Where the column shows in the card layout. Defaults to
+//   primary for the first visible column and secondary for the rest.
+interface ColumnOptions<T> {
+  header: React.ReactNode;
+  cell?: (context: CellContext<T>) => React.ReactNode;
+  format?: ColumnFormat<T>;
+  align?: 'left' | 'center' | 'right';
+  width?: number | string;
+  className?: string;
+  sortable?: boolean;
+  sortType?: SortType;
+  sortFn?: (a: unknown, b: unknown, rowA: T, rowB: T) => number;
+  filterType?: FilterType | false;
+  filterOptions?: string[];
+  searchable?: boolean;
+  editable?: boolean | ((row: T) => boolean);
+  editor?: (props: CellEditorProps<T>) => React.ReactNode;
+  validate?: (value: unknown, row: T) => CellValidationResult | Promise<CellValidationResult>;
+  parseValue?: (draft: string) => unknown;
+  exportable?: boolean;
+  exportHeader?: string;
+  pinned?: 'left' | 'right';
+  hideable?: boolean;
+  resizable?: boolean;
+  aggregate?: ColumnAggregate<T>;
+  responsive?: ResponsivePriority;
+}
+
+// Define the type for a single column. The <T> is a generic type,
+// allowing the component to work with any data structure.
+// key: A unique key for the column. Without an accessor it is the key of
+//   the data object to display, so it must be one of T's keys.
+// accessor: Derives the column's value from the row, e.g. for nested or
+//   computed values. The key can then be any string.
+export type Column<T> = ColumnOptions<T> &
+  ({ key: keyof T; accessor?: undefined } | { key: string; accessor: (row: T) => unknown });
+
+/**
+ * Reads a column's raw value from a row.
+ * @param {Column<T>} column - The column definition.
+ * @param {T} row - The data row.
+ * @returns {unknown} The accessor's result, or the row's value at the column key.
+ */
+export const getColumnValue = <T,>(column: Column<T>, row: T): unknown => {
+  if (column.accessor) {
+    return column.accessor(row);
+  }
+  return row[column.key as keyof T];
+};
+
+/**
+ * Returns a text label for a column, for places where a ReactNode header
+ * can't be shown, such as filter chips and exported files.
+ * @param {Column<T>} column - The column definition.
+ * @returns {string} The export header, the header if it is a string, or the key.
+ */
+export const getColumnLabel = <T,>(column: Column<T>): string =>
+  column.exportHeader ?? (typeof column.header === 'string' ? column.header : String(column.key));
+
+/**
+ * Checks whether a cell can be edited inline.
+ * @param {Column<T>} column - The column definition.
+ * @param {T} row - The data row.
+ * @returns {boolean} True when the column is editable for the row.
+ */
+export const isCellEditable = <T,>(column: Column<T>, row: T): boolean =>
+  typeof column.editable === 'function' ? column.editable(row) : Boolean(column.editable);
+
+/**
+ * Describes how to sort by each column.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @returns {SortColumn<T>[]} The sort descriptions for sortRows.
+ */
+export const toSortColumns = <T,>(columns: Column<T>[]): SortColumn<T>[] =>
+  columns.map((column) => ({
+    key: String(column.key),
+    getValue: (row: T) => getColumnValue(column, row),
+    sortType: column.sortType,
+    sortFn: column.sortFn,
+  }));
+
+/**
+ * Describes how to filter by each column.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @returns {FilterColumn<T>[]} The filter descriptions for filterRows.
+ */
+export const toFilterColumns = <T,>(columns: Column<T>[]): FilterColumn<T>[] =>
+  columns.map((column) => ({
+    key: String(column.key),
+    getValue: (row: T) => getColumnValue(column, row),
+    searchable: column.searchable !== false,
+  }));
+
+/**
+ * Works out which kind of filter a column offers.
+ * @param {Column<T>} column - The column definition.
+ * @returns {FilterType | null} The filter type, or null when the column can't be filtered.
+ */
+export const getFilterType = <T,>(column: Column<T>): FilterType | null => {
+  if (column.filterType === false) {
+    return null;
+  }
+  if (column.filterType) {
+    return column.filterType;
+  }
+  if (column.filterOptions) {
+    return 'enum';
+  }
+  switch (column.sortType) {
+    case 'number':
+      return 'range';
+    case 'date':
+      return 'dateRange';
+    case 'boolean':
+      return 'enum';
+    default:
+      return 'text';
+  }
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Builds a formatter for a column. Intl formatters are created once here,
+ * rather than for every cell.
+ * @param {ColumnFormat<T> | undefined} format - The column's format option.
+ * @returns {(value: unknown, row: T) => string} A function that formats a value.
+ */
+export const createFormatter = <T,>(
+  format: ColumnFormat<T> | undefined
+): ((value: unknown, row: T) => string) => {
+  const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+  if (!format) {
+    return toText;
+  }
+  if (typeof format === 'function') {
+    return format;
+  }
+
+  if (format.type === 'date' || format.type === 'datetime') {
+    const defaults: Intl.DateTimeFormatOptions =
+      format.type === 'date' ? { dateStyle: 'medium' } : { dateStyle: 'medium', timeStyle: 'short' };
+    const formatter = new Intl.DateTimeFormat(format.locale, format.options ?? defaults);
+    return (value) => {
+      const date = toDate(value);
+      return date ? formatter.format(date) : toText(value);
+    };
+  }
+
+  const style = format.type === 'number' ? 'decimal' : format.type;
+  const formatter = new Intl.NumberFormat(format.locale, {
+    style,
+    currency: format.type === 'currency' ? format.currency : undefined,
+    ...format.options,
+  });
+  return (value) => {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return formatter.format(value);
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return formatter.format(Number(value));
+    }
+    return toText(value);
+  };
+};
+
+// Tailwind classes for each column alignment.
+export const alignClasses = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+// Flex alignment for header content, which is laid out in a flex container.
+export const headerAlignClasses = {
+  left: 'justify-start',
+  center: 'justify-center',
+  right: 'justify-end',
+};
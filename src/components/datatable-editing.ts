@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { Column, getColumnValue } from './datatable-columns.ts';
+import { RowId } from './datatable-selection.ts';
+
+// The cell being edited.
+export interface EditingCell<T> {
+  rowId: RowId;
+  column: Column<T>;
+  row: T;
+}
+
+// The props passed to a column's custom `editor`.
+// value: The draft text. Call onChange as the user types.
+// error: The validation message, if the draft was rejected.
+export interface CellEditorProps<T> {
+  value: string;
+  onChange: (value: string) => void;
+  row: T;
+  column: Column<T>;
+  error?: string;
+  validating: boolean;
+}
+
+// Returned by a column's `validate`: an error message, or nothing when valid.
+export type CellValidationResult = string | null | undefined;
+
+// Called when an edit is committed. Return a promise to keep the new value
+// on screen until it settles; a rejection rolls the cell back.
+export type CellEditHandler<T> = (rowId: RowId, key: string, value: unknown, row: T) => void | Promise<void>;
+
+// An id for a single cell, used to key optimistic values and errors.
+const cellKey = (rowId: RowId, key: string) => `${rowId}\u0000${key}`;
+
+// Whether a column holds numbers, so the editor parses the draft as one.
+export const isNumericColumn = <T,>(column: Column<T>, value: unknown) =>
+  column.sortType === 'number' || typeof value === 'number';
+
+/**
+ * Converts the editor's draft text into the value passed to onCellEdit.
+ * @param {Column<T>} column - The edited column.
+ * @param {string} draft - The text in the editor.
+ * @param {unknown} original - The cell's value before editing.
+ * @returns {{ value: unknown } | { error: string }} The parsed value, or why it can't be parsed.
+ */
+export const parseCellDraft = <T,>(
+  column: Column<T>,
+  draft: string,
+  original: unknown
+): { value: unknown } | { error: string } => {
+  if (column.parseValue) {
+    return { value: column.parseValue(draft) };
+  }
+  if (isNumericColumn(column, original)) {
+    if (draft.trim() === '') {
+      return { value: null };
+    }
+    const number = Number(draft);
+    return Number.isNaN(number) ? { error: 'Enter a number.' } : { value: number };
+  }
+  return { value: draft };
+};
+
+/**
+ * Tracks the cell being edited and runs the commit/cancel lifecycle:
+ * parsing, sync or async validation, optimistic display and rollback.
+ * @param {CellEditHandler<T> | undefined} onCellEdit - Called with each committed value.
+ * @returns The editing state and functions to drive it.
+ */
+export const useCellEditing = <T,>(onCellEdit: CellEditHandler<T> | undefined) => {
+  const [editing, setEditing] = useState<EditingCell<T> | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [validating, setValidating] = useState(false);
+  // Values shown while onCellEdit is pending, and errors from rejected edits.
+  const [pendingValues, setPendingValues] = useState(new Map<string, unknown>());
+  const [editErrors, setEditErrors] = useState(new Map<string, string>());
+  // Bumped whenever an edit starts or ends, so late validation results are ignored.
+  const session = useRef(0);
+  const isCommitting = useRef(false);
+
+  const updateMap = <V,>(setMap: React.Dispatch<React.SetStateAction<Map<string, V>>>, key: string, value?: V) =>
+    setMap((map) => {
+      const next = new Map(map);
+      if (value === undefined) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+      return next;
+    });
+
+  // Read a cell's value, preferring a pending optimistic value.
+  const getValue = (rowId: RowId, column: Column<T>, row: T): unknown => {
+    const key = cellKey(rowId, String(column.key));
+    return pendingValues.has(key) ? pendingValues.get(key) : getColumnValue(column, row);
+  };
+
+  const getError = (rowId: RowId, column: Column<T>) => editErrors.get(cellKey(rowId, String(column.key)));
+
+  const isEditing = (rowId: RowId, column: Column<T>) =>
+    editing !== null && editing.rowId === rowId && editing.column.key === column.key;
+
+  const start = (cell: EditingCell<T>) => {
+    session.current++;
+    const value = getValue(cell.rowId, cell.column, cell.row);
+    setEditing(cell);
+    setDraft(value === null || value === undefined ? '' : String(value));
+    setError(undefined);
+    setValidating(false);
+    updateMap(setEditErrors, cellKey(cell.rowId, String(cell.column.key)));
+  };
+
+  const cancel = () => {
+    session.current++;
+    setEditing(null);
+    setError(undefined);
+    setValidating(false);
+  };
+
+  // Validate and commit the draft. Resolves to false when the editor should
+  // stay open, e.g. because the value is invalid. Doesn't wait for
+  // onCellEdit: the new value shows straight away while it saves.
+  const commit = async (): Promise<boolean> => {
+    if (!editing || isCommitting.current) {
+      return !editing;
+    }
+    const { rowId, column, row } = editing;
+    const key = String(column.key);
+    const original = getValue(rowId, column, row);
+    const currentSession = session.current;
+
+    const parsed = parseCellDraft(column, draft, original);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return false;
+    }
+
+    if (column.validate) {
+      isCommitting.current = true;
+      setValidating(true);
+      let message: CellValidationResult;
+      try {
+        message = await column.validate(parsed.value, row);
+      } catch (reason) {
+        message = reason instanceof Error ? reason.message : 'Validation failed.';
+      } finally {
+        isCommitting.current = false;
+      }
+      if (currentSession !== session.current) {
+        return false;
+      }
+      setValidating(false);
+      if (message) {
+        setError(message);
+        return false;
+      }
+    }
+
+    session.current++;
+    setEditing(null);
+    setError(undefined);
+    if (Object.is(parsed.value, original) || !onCellEdit) {
+      return true;
+    }
+
+    // Show the new value straight away and save it in the background,
+    // rolling back if the edit is rejected.
+    const id = cellKey(rowId, key);
+    updateMap(setPendingValues, id, parsed.value);
+    const save = async () => {
+      try {
+        await onCellEdit(rowId, key, parsed.value, row);
+      } catch (reason) {
+        updateMap(setEditErrors, id, reason instanceof Error ? reason.message : 'The change could not be saved.');
+      } finally {
+        updateMap(setPendingValues, id);
+      }
+    };
+    void save();
+    return true;
+  };
+
+  return { editing, draft, setDraft, error, validating, start, cancel, commit, getValue, getError, isEditing };
+};
@@ -0,0 +1,93 @@
+import { useRef, useState } from 'react';
+import { DownloadIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useDismiss } from '@/lib/hooks';
+import { ExportFormat, ExportValues } from './datatable-export.ts';
+
+// Define the export menu's props.
+// formats: The formats offered, in order.
+// selectedCount: The number of selected rows. The "selected rows only"
+//   option is offered when it is above zero.
+// onExport: Called with the chosen format, values and row scope.
+export interface DataTableExportMenuProps {
+  formats: ExportFormat[];
+  selectedCount: number;
+  onExport: (format: ExportFormat, values: ExportValues, selectedOnly: boolean) => void;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+};
+
+/**
+ * A toolbar button that opens a menu for exporting the table's rows.
+ * @param {DataTableExportMenuProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered export menu.
+ */
+export const DataTableExportMenu = ({ formats, selectedCount, onExport }: DataTableExportMenuProps): JSX.Element => {
+  // Use state to track whether the menu is open and the chosen options.
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<ExportValues>('formatted');
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on a click outside it or on Escape.
+  useDismiss(menuRef, isOpen, () => setIsOpen(false));
+
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="outline"
+        leftIcon={<DownloadIcon />}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        Export
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-56 space-y-3 rounded-lg border border-gray-200 bg-white p-3 text-sm text-gray-700 shadow-lg dark:border-gray-700 dark:bg-gray-900 dark:text-gray-300">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              className="form-checkbox rounded text-blue-500"
+              checked={values === 'formatted'}
+              onChange={(event) => setValues(event.target.checked ? 'formatted' : 'raw')}
+            />
+            <span>Formatted values</span>
+          </label>
+          {hasSelection && (
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                className="form-checkbox rounded text-blue-500"
+                checked={selectedOnly}
+                onChange={(event) => setSelectedOnly(event.target.checked)}
+              />
+              <span>Selected rows only ({selectedCount})</span>
+            </label>
+          )}
+          <div className="flex space-x-2">
+            {formats.map((format) => (
+              <Button
+                key={format}
+                size="sm"
+                className="flex-1"
+                onClick={() => {
+                  onExport(format, values, hasSelection && selectedOnly);
+                  setIsOpen(false);
+                }}
+              >
+                {formatLabels[format]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
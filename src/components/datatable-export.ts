@@ -0,0 +1,128 @@
+// Serializing DataTable rows to CSV, TSV and JSON files.
+import { Column, createFormatter, getColumnLabel, getColumnValue } from './datatable-columns.ts';
+
+// The supported file formats.
+// csv: Comma-separated values, quoted as described in RFC 4180.
+// tsv: Tab-separated values. Tabs and line breaks inside values become spaces.
+// json: An array of objects keyed by column key.
+export type ExportFormat = 'csv' | 'tsv' | 'json';
+
+// Which value of each cell is written.
+// formatted: The text shown in the table, after the column's `format`.
+// raw: The value from the accessor or the row's key.
+export type ExportValues = 'formatted' | 'raw';
+
+// Options for serializeRows.
+// includeHeaders: Whether CSV and TSV files start with a header row. Defaults to true.
+export interface ExportOptions {
+  format: ExportFormat;
+  values?: ExportValues;
+  includeHeaders?: boolean;
+}
+
+// A serialized file, ready to be downloaded or sent elsewhere.
+export interface ExportFile {
+  format: ExportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const exportMimeTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+};
+
+// Turn a raw value into text for CSV and TSV. Dates are written as ISO
+// strings and objects as JSON, so nothing ends up as "[object Object]".
+const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+// Quote a CSV field when it contains a comma, a quote or a line break,
+// doubling any quotes inside it.
+const toCsvField = (text: string): string => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// TSV has no quoting, so separators inside a field are replaced.
+const toTsvField = (text: string): string => text.replace(/[\t\r\n]+/g, ' ');
+
+/**
+ * Serializes rows to CSV, TSV or JSON. Columns are written in the given
+ * order, skipping those marked `exportable: false`.
+ * @param {T[]} rows - The rows to write, in order.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @param {ExportOptions} options - The file format and which values to write.
+ * @returns {string} The file content. CSV and TSV lines end with CRLF.
+ */
+export const serializeRows = <T,>(rows: T[], columns: Column<T>[], options: ExportOptions): string => {
+  const { format, values = 'formatted', includeHeaders = true } = options;
+  const exportColumns = columns.filter((column) => column.exportable !== false);
+  const formatters = exportColumns.map((column) => createFormatter(column.format));
+  const getValue = (column: Column<T>, columnIndex: number, row: T) => {
+    const value = getColumnValue(column, row);
+    return values === 'raw' ? value : formatters[columnIndex](value, row);
+  };
+
+  if (format === 'json') {
+    const objects = rows.map((row) =>
+      Object.fromEntries(exportColumns.map((column, columnIndex) => [String(column.key), getValue(column, columnIndex, row)]))
+    );
+    return JSON.stringify(objects, null, 2);
+  }
+
+  const toField = format === 'csv' ? toCsvField : toTsvField;
+  const separator = format === 'csv' ? ',' : '\t';
+  const lines = rows.map((row) =>
+    exportColumns.map((column, columnIndex) => toField(toCellText(getValue(column, columnIndex, row)))).join(separator)
+  );
+  if (includeHeaders) {
+    lines.unshift(exportColumns.map((column) => toField(getColumnLabel(column))).join(separator));
+  }
+  return lines.map((line) => `${line}\r\n`).join('');
+};
+
+/**
+ * Serializes rows into a named file.
+ * @param {T[]} rows - The rows to write, in order.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @param {ExportOptions & { fileName: string }} options - The serialization options
+ *   and the file name without an extension.
+ * @returns {ExportFile} The file with its name, MIME type and content.
+ */
+export const createExportFile = <T,>(
+  rows: T[],
+  columns: Column<T>[],
+  { fileName, ...options }: ExportOptions & { fileName: string }
+): ExportFile => ({
+  format: options.format,
+  fileName: `${fileName}.${options.format}`,
+  mimeType: exportMimeTypes[options.format],
+  content: serializeRows(rows, columns, options),
+});
+
+/**
+ * Saves a file through the browser's download prompt.
+ * @param {ExportFile} file - The file to save.
+ */
+export const downloadExportFile = (file: ExportFile): void => {
+  // Excel needs a byte order mark to read UTF-8 CSV files correctly.
+  const bom = file.format === 'json' ? '' : '\uFEFF';
+  const url = URL.createObjectURL(new Blob([bom, file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,174 @@
+// Filtering helpers shared by the DataTable and its data sources.
+
+// The kinds of per-column filters.
+// text: The value contains or equals a string, ignoring case.
+// range: A number between an optional minimum and maximum, inclusive.
+// dateRange: A date between optional ISO dates (yyyy-mm-dd), inclusive.
+// enum: The value is one of a set of options.
+export type FilterType = 'text' | 'range' | 'dateRange' | 'enum';
+
+// The value of a single column filter.
+export type ColumnFilterValue =
+  | { type: 'text'; operator: 'contains' | 'equals'; value: string }
+  | { type: 'range'; min?: number; max?: number }
+  | { type: 'dateRange'; from?: string; to?: string }
+  | { type: 'enum'; values: string[] };
+
+// The filter state: a global search string and filters keyed by column key.
+export interface FilterState {
+  search: string;
+  columns: Record<string, ColumnFilterValue>;
+}
+
+// How a column takes part in filtering.
+// getValue: Reads the value to filter by from a row.
+// searchable: Whether the global search looks at this column.
+export interface FilterColumn<T> {
+  key: string;
+  getValue: (row: T) => unknown;
+  searchable: boolean;
+}
+
+export const emptyFilterState: FilterState = { search: '', columns: {} };
+
+/**
+ * Checks whether a column filter narrows the rows at all.
+ * @param {ColumnFilterValue | undefined} filter - The column filter.
+ * @returns {boolean} False for missing or blank filters.
+ */
+export const isFilterActive = (filter: ColumnFilterValue | undefined): boolean => {
+  if (!filter) {
+    return false;
+  }
+  switch (filter.type) {
+    case 'text':
+      return filter.value.trim() !== '';
+    case 'range':
+      return filter.min !== undefined || filter.max !== undefined;
+    case 'dateRange':
+      return Boolean(filter.from || filter.to);
+    case 'enum':
+      return filter.values.length > 0;
+  }
+};
+
+/**
+ * Checks whether any search or column filter is active.
+ * @param {FilterState} filters - The filter state.
+ * @returns {boolean} True when rows may be hidden by the filters.
+ */
+export const hasActiveFilters = (filters: FilterState): boolean =>
+  filters.search.trim() !== '' || Object.values(filters.columns).some(isFilterActive);
+
+// Parse a value into a number for its local calendar day, so date ranges
+// compare whole days regardless of the time of day. Date-only strings such
+// as '2024-01-05', which the filter inputs produce, name that day as is;
+// `new Date` would read them as midnight UTC, the previous day west of it.
+const toDay = (value: unknown): number | null => {
+  const dateOnly = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (dateOnly) {
+    return Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+  }
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  const time = date.getTime();
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * Checks a single value against a column filter.
+ * @param {unknown} value - The column's value for a row.
+ * @param {ColumnFilterValue} filter - The column filter.
+ * @returns {boolean} True when the value passes the filter.
+ */
+export const matchesFilter = (value: unknown, filter: ColumnFilterValue): boolean => {
+  if (!isFilterActive(filter)) {
+    return true;
+  }
+  switch (filter.type) {
+    case 'text': {
+      const text = toText(value).toLowerCase();
+      const query = filter.value.trim().toLowerCase();
+      return filter.operator === 'equals' ? text === query : text.includes(query);
+    }
+    case 'range': {
+      if (value === null || value === undefined || value === '') {
+        return false;
+      }
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        return false;
+      }
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case 'dateRange': {
+      const day = value === null || value === undefined || value === '' ? null : toDay(value);
+      if (day === null) {
+        return false;
+      }
+      const from = filter.from ? toDay(filter.from) : null;
+      const to = filter.to ? toDay(filter.to) : null;
+      return (from === null || day >= from) && (to === null || day <= to);
+    }
+    case 'enum':
+      return filter.values.includes(toText(value));
+  }
+};
+
+/**
+ * Returns the rows that match the global search and every column filter.
+ * @param {T[]} rows - The rows to filter.
+ * @param {FilterState} filters - The search string and column filters.
+ * @param {FilterColumn<T>[]} columns - How each column is read. Filters for
+ *   keys without a column are read directly from the row.
+ * @returns {T[]} The matching rows, in their original order.
+ */
+export const filterRows = <T,>(rows: T[], filters: FilterState, columns: FilterColumn<T>[]): T[] => {
+  const search = filters.search.trim().toLowerCase();
+  const searchColumns = columns.filter((column) => column.searchable);
+  const activeFilters = Object.entries(filters.columns)
+    .filter(([, filter]) => isFilterActive(filter))
+    .map(([key, filter]) => ({
+      filter,
+      getValue: columns.find((column) => column.key === key)?.getValue ?? ((row: T) => row[key as keyof T]),
+    }));
+
+  if (!search && activeFilters.length === 0) {
+    return rows;
+  }
+
+  return rows.filter(
+    (row) =>
+      (!search ||
+        searchColumns.some((column) => toText(column.getValue(row)).toLowerCase().includes(search))) &&
+      activeFilters.every(({ filter, getValue }) => matchesFilter(getValue(row), filter))
+  );
+};
+
+/**
+ * Describes a column filter in a few words, for filter chips.
+ * @param {ColumnFilterValue} filter - The column filter.
+ * @returns {string} E.g. "contains “lon”", "18 – 30" or "London, Paris".
+ */
+export const describeFilter = (filter: ColumnFilterValue): string => {
+  switch (filter.type) {
+    case 'text':
+      return `${filter.operator === 'equals' ? 'is' : 'contains'} “${filter.value.trim()}”`;
+    case 'range':
+      if (filter.min !== undefined && filter.max !== undefined) {
+        return `${filter.min} – ${filter.max}`;
+      }
+      return filter.min !== undefined ? `≥ ${filter.min}` : `≤ ${filter.max}`;
+    case 'dateRange':
+      if (filter.from && filter.to) {
+        return `${filter.from} – ${filter.to}`;
+      }
+      return filter.from ? `from ${filter.from}` : `until ${filter.to}`;
+    case 'enum':
+      return filter.values.join(', ');
+  }
+};
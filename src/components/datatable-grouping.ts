@@ -0,0 +1,187 @@
+// Grouping rows and aggregating column values for the DataTable.
+import { SortState } from './datatable-sort.ts';
+
+// How a column's values are summarized in group headers and the footer.
+// sum / avg / min / max: Computed over the numeric values, ignoring blanks.
+//   min and max also compare dates and strings.
+// count: The number of non-blank values.
+// A function receives the values and their rows and returns the summary.
+export type ColumnAggregate<T> =
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max'
+  | 'count'
+  | ((values: unknown[], rows: T[]) => unknown);
+
+// A group of rows sharing a value, possibly split into nested groups.
+// id: A unique id built from the values of the group and its parents.
+// key: The grouped field.
+// value: The value shared by the rows.
+// depth: 0 for top-level groups.
+// rows: Every row in the group, in order, including those in nested groups.
+// children: The nested groups, when grouping by more than one field.
+export interface RowGroup<T> {
+  id: string;
+  key: string;
+  value: unknown;
+  depth: number;
+  rows: T[];
+  children: RowGroup<T>[];
+}
+
+// An entry in the list of displayed rows: a group header, a data row or a
+// row's detail panel.
+// depth: For rows and panels, the number of groups and parent rows they are nested in.
+export type TableItem<T> =
+  | { type: 'group'; group: RowGroup<T> }
+  | { type: 'row'; row: T; depth: number }
+  | { type: 'detail'; row: T; depth: number };
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Values that min and max can compare: numbers, dates and strings.
+const toComparable = (value: unknown): number | string | null => {
+  if (isBlank(value)) {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? null : value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  return String(value);
+};
+
+/**
+ * Summarizes a column's values with an aggregate.
+ * @param {ColumnAggregate<T>} aggregate - The aggregate to apply.
+ * @param {unknown[]} values - The column's values for the rows.
+ * @param {T[]} rows - The rows the values were read from.
+ * @returns {unknown} The summary, or null when there are no values to summarize.
+ */
+export const aggregateValues = <T,>(aggregate: ColumnAggregate<T>, values: unknown[], rows: T[]): unknown => {
+  if (typeof aggregate === 'function') {
+    return aggregate(values, rows);
+  }
+  const present = values.filter((value) => !isBlank(value));
+  if (aggregate === 'count') {
+    return present.length;
+  }
+  if (aggregate === 'min' || aggregate === 'max') {
+    const comparable = present.map(toComparable).filter((value): value is number | string => value !== null);
+    if (comparable.length === 0) {
+      return null;
+    }
+    const pick = (a: number | string, b: number | string) => ((aggregate === 'min' ? b < a : b > a) ? b : a);
+    const result = comparable.reduce(pick);
+    // Give dates back as dates, so date formats still apply.
+    return present.every((value) => value instanceof Date) ? new Date(result) : result;
+  }
+  const numbers = present.map(Number).filter((value) => !Number.isNaN(value));
+  if (numbers.length === 0) {
+    return null;
+  }
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  return aggregate === 'sum' ? sum : sum / numbers.length;
+};
+
+/**
+ * Puts the grouped fields first in the sort, so rows of a group are next to
+ * each other and groups follow the direction chosen for their field.
+ * @param {SortState} sort - The sorted columns in priority order.
+ * @param {string[]} groupBy - The grouped fields, outermost first.
+ * @returns {SortState} The sort to apply before grouping.
+ */
+export const getGroupedSort = (sort: SortState, groupBy: string[]): SortState => [
+  ...groupBy.map((key) => sort.find((config) => config.key === key) ?? { key, direction: 'asc' as const }),
+  ...sort.filter((config) => !groupBy.includes(config.key)),
+];
+
+/**
+ * Groups rows by one or more fields. Groups appear in the order of their
+ * first row, so sort the rows with getGroupedSort first.
+ * @param {T[]} rows - The rows to group.
+ * @param {string[]} groupBy - The grouped fields, outermost first.
+ * @param {(key: string, row: T) => unknown} getValue - Reads a field from a row.
+ * @returns {RowGroup<T>[]} The top-level groups.
+ */
+export const groupRows = <T,>(
+  rows: T[],
+  groupBy: string[],
+  getValue: (key: string, row: T) => unknown
+): RowGroup<T>[] => {
+  const build = (groupRowsList: T[], depth: number, parentPath: string[]): RowGroup<T>[] => {
+    const key = groupBy[depth];
+    const groups = new Map<string, RowGroup<T>>();
+    groupRowsList.forEach((row) => {
+      const value = getValue(key, row);
+      // Group dates and values that print alike together.
+      const valueId = value instanceof Date ? value.toISOString() : String(value ?? '');
+      let group = groups.get(valueId);
+      if (!group) {
+        group = { id: JSON.stringify([...parentPath, valueId]), key, value, depth, rows: [], children: [] };
+        groups.set(valueId, group);
+      }
+      group.rows.push(row);
+    });
+    if (depth + 1 < groupBy.length) {
+      groups.forEach((group, valueId) => {
+        group.children = build(group.rows, depth + 1, [...parentPath, valueId]);
+      });
+    }
+    return [...groups.values()];
+  };
+  return groupBy.length > 0 ? build(rows, 0, []) : [];
+};
+
+/**
+ * Lists group headers and rows in display order, leaving out the contents
+ * of collapsed groups.
+ * @param {RowGroup<T>[]} groups - The top-level groups.
+ * @param {Set<string>} collapsed - The ids of collapsed groups.
+ * @returns {TableItem<T>[]} The headers and rows to display.
+ */
+export const flattenGroups = <T,>(groups: RowGroup<T>[], collapsed: Set<string>): TableItem<T>[] => {
+  const items: TableItem<T>[] = [];
+  const visit = (group: RowGroup<T>) => {
+    items.push({ type: 'group', group });
+    if (collapsed.has(group.id)) {
+      return;
+    }
+    if (group.children.length > 0) {
+      group.children.forEach(visit);
+    } else {
+      group.rows.forEach((row) => items.push({ type: 'row', row, depth: group.depth + 1 }));
+    }
+  };
+  groups.forEach(visit);
+  return items;
+};
+
+/**
+ * Returns one page of items. When the page starts inside a group, the
+ * headers of that group and its parents are repeated at the top.
+ * @param {TableItem<T>[]} items - Every header and row, in display order.
+ * @param {number} start - The index of the page's first item.
+ * @param {number} pageSize - The number of items per page.
+ * @returns {TableItem<T>[]} The page, with any repeated headers first.
+ */
+export const paginateItems = <T,>(items: TableItem<T>[], start: number, pageSize: number): TableItem<T>[] => {
+  const page = items.slice(start, start + pageSize);
+  const first = page[0];
+  if (!first) {
+    return page;
+  }
+  let depth = first.type === 'group' ? first.group.depth : first.depth;
+  const parents: TableItem<T>[] = [];
+  for (let index = start - 1; index >= 0 && depth > 0; index--) {
+    const item = items[index];
+    if (item.type === 'group' && item.group.depth < depth) {
+      parents.unshift(item);
+      depth = item.group.depth;
+    }
+  }
+  return [...parents, ...page];
+};
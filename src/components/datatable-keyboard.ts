@@ -0,0 +1,52 @@
+// Keyboard navigation for the DataTable's grid of cells.
+
+// A cell position. Row 0 is the header row; data rows start at 1.
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+// The size of the grid and how far PageUp/PageDown move.
+export interface GridSize {
+  rowCount: number;
+  colCount: number;
+  pageRows: number;
+}
+
+/**
+ * Works out where focus moves for a navigation key, following the WAI-ARIA
+ * grid pattern: arrows move one cell, Home/End go to the start or end of the
+ * row (with Ctrl, of the grid), and PageUp/PageDown move by a page of rows.
+ * @param {string} key - The KeyboardEvent key.
+ * @param {boolean} ctrlKey - Whether Ctrl (or Cmd) is held.
+ * @param {GridCell} cell - The focused cell.
+ * @param {GridSize} size - The grid size.
+ * @returns {GridCell | null} The cell to focus, or null when the key doesn't navigate.
+ */
+export const getNextCell = (key: string, ctrlKey: boolean, cell: GridCell, size: GridSize): GridCell | null => {
+  const lastRow = size.rowCount - 1;
+  const lastCol = size.colCount - 1;
+  const clampRow = (row: number) => Math.max(0, Math.min(lastRow, row));
+  const clampCol = (col: number) => Math.max(0, Math.min(lastCol, col));
+
+  switch (key) {
+    case 'ArrowUp':
+      return { row: clampRow(cell.row - 1), col: cell.col };
+    case 'ArrowDown':
+      return { row: clampRow(cell.row + 1), col: cell.col };
+    case 'ArrowLeft':
+      return { row: cell.row, col: clampCol(cell.col - 1) };
+    case 'ArrowRight':
+      return { row: cell.row, col: clampCol(cell.col + 1) };
+    case 'Home':
+      return ctrlKey ? { row: 0, col: 0 } : { row: cell.row, col: 0 };
+    case 'End':
+      return ctrlKey ? { row: lastRow, col: lastCol } : { row: cell.row, col: lastCol };
+    case 'PageUp':
+      return { row: clampRow(cell.row - size.pageRows), col: cell.col };
+    case 'PageDown':
+      return { row: clampRow(cell.row + size.pageRows), col: cell.col };
+    default:
+      return null;
+  }
+};
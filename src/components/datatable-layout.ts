@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Column } from './datatable-columns.ts';
+
+// Which edge of the table a column is pinned to, or false for none.
+export type ColumnPin = 'left' | 'right' | false;
+
+// The user's column layout, keyed by column key. Columns missing from a
+// field keep their defaults, so a saved layout survives added columns.
+// order: The column keys in display order.
+// widths: Column widths in pixels, set by resizing.
+// hidden: The keys of hidden columns.
+// pinned: Pinning chosen by the user, overriding the column's `pinned`.
+export interface ColumnState {
+  order: string[];
+  widths: Record<string, number>;
+  hidden: string[];
+  pinned: Record<string, ColumnPin>;
+}
+
+export const emptyColumnState: ColumnState = { order: [], widths: {}, hidden: [], pinned: {} };
+
+// The narrowest a column can be resized to, in pixels.
+export const minColumnWidth = 48;
+
+/**
+ * Returns a column's pinning, from the layout or the column definition.
+ * @param {Column<T>} column - The column definition.
+ * @param {ColumnState} state - The column layout.
+ * @returns {ColumnPin} The edge the column is pinned to, or false.
+ */
+export const getColumnPin = <T,>(column: Column<T>, state: ColumnState): ColumnPin =>
+  state.pinned[String(column.key)] ?? column.pinned ?? false;
+
+/**
+ * Orders all columns by the layout, leaving out none. Columns missing from
+ * the layout's order keep their position relative to the columns array.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @param {ColumnState} state - The column layout.
+ * @returns {Column<T>[]} The columns in display order, before pinning.
+ */
+export const orderColumns = <T,>(columns: Column<T>[], state: ColumnState): Column<T>[] => {
+  const rank = new Map(state.order.map((key, index) => [key, index]));
+  if (rank.size === 0) {
+    return columns;
+  }
+  // Unordered columns sort right after the ordered column that precedes
+  // them in the columns array.
+  let previousRank = -1;
+  const ranked = columns.map((column, index) => {
+    const ownRank = rank.get(String(column.key));
+    if (ownRank !== undefined) {
+      previousRank = ownRank;
+    }
+    return { column, rank: ownRank ?? previousRank + 0.5, index };
+  });
+  return ranked.sort((a, b) => a.rank - b.rank || a.index - b.index).map(({ column }) => column);
+};
+
+/**
+ * Works out the columns to render: visible columns in the layout's order,
+ * with left-pinned columns first and right-pinned columns last.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @param {ColumnState} state - The column layout.
+ * @returns {Column<T>[]} The visible columns in display order.
+ */
+export const resolveColumns = <T,>(columns: Column<T>[], state: ColumnState): Column<T>[] => {
+  const hidden = new Set(state.hidden);
+  const visible = orderColumns(columns, state).filter((column) => !hidden.has(String(column.key)));
+  return [
+    ...visible.filter((column) => getColumnPin(column, state) === 'left'),
+    ...visible.filter((column) => getColumnPin(column, state) === false),
+    ...visible.filter((column) => getColumnPin(column, state) === 'right'),
+  ];
+};
+
+/**
+ * Moves a column to the position of another column.
+ * @param {Column<T>[]} columns - The column definitions.
+ * @param {ColumnState} state - The column layout.
+ * @param {string} fromKey - The key of the column being moved.
+ * @param {string} toKey - The key of the column it is dropped on.
+ * @returns {ColumnState} The layout with the new order.
+ */
+export const moveColumn = <T,>(columns: Column<T>[], state: ColumnState, fromKey: string, toKey: string): ColumnState => {
+  const order = orderColumns(columns, state).map((column) => String(column.key));
+  const from = order.indexOf(fromKey);
+  const to = order.indexOf(toKey);
+  if (from === -1 || to === -1 || from === to) {
+    return state;
+  }
+  order.splice(from, 1);
+  order.splice(to, 0, fromKey);
+  return { ...state, order };
+};
+
+/**
+ * Shows or hides a column.
+ * @param {ColumnState} state - The column layout.
+ * @param {string} key - The column key.
+ * @param {boolean} visible - Whether the column should be shown.
+ * @returns {ColumnState} The updated layout.
+ */
+export const setColumnVisible = (state: ColumnState, key: string, visible: boolean): ColumnState => {
+  const hidden = state.hidden.filter((hiddenKey) => hiddenKey !== key);
+  return { ...state, hidden: visible ? hidden : [...hidden, key] };
+};
+
+/**
+ * Pins a column to an edge, or unpins it.
+ * @param {ColumnState} state - The column layout.
+ * @param {string} key - The column key.
+ * @param {ColumnPin} pin - The edge, or false to unpin.
+ * @returns {ColumnState} The updated layout.
+ */
+export const setColumnPin = (state: ColumnState, key: string, pin: ColumnPin): ColumnState => ({
+  ...state,
+  pinned: { ...state.pinned, [key]: pin },
+});
+
+/**
+ * Sets a column's width, or resets it to the column's default.
+ * @param {ColumnState} state - The column layout.
+ * @param {string} key - The column key.
+ * @param {number | undefined} width - The width in pixels, or undefined to reset.
+ * @returns {ColumnState} The updated layout.
+ */
+export const setColumnWidth = (state: ColumnState, key: string, width: number | undefined): ColumnState => {
+  const widths = { ...state.widths };
+  if (width === undefined) {
+    delete widths[key];
+  } else {
+    widths[key] = Math.max(minColumnWidth, Math.round(width));
+  }
+  return { ...state, widths };
+};
+
+/**
+ * Measures the rendered width of header cells, so pinned columns can be
+ * offset by the widths of the pinned columns before them.
+ * @param {boolean} enabled - Whether any column is pinned.
+ * @returns The measured widths by key and a ref callback factory for header cells.
+ */
+export const useColumnWidths = (enabled: boolean) => {
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const observer = useRef<ResizeObserver | null>(null);
+  const elements = useRef(new Map<string, Element>());
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    observer.current = new ResizeObserver((entries) => {
+      const keysByElement = new Map<Element, string>();
+      elements.current.forEach((element, key) => keysByElement.set(element, key));
+      setWidths((current) => {
+        let next = current;
+        entries.forEach((entry) => {
+          const key = keysByElement.get(entry.target);
+          const width = entry.target.getBoundingClientRect().width;
+          if (key !== undefined && current[key] !== width) {
+            next = { ...next, [key]: width };
+          }
+        });
+        return next;
+      });
+    });
+    elements.current.forEach((element) => observer.current?.observe(element));
+    return () => {
+      observer.current?.disconnect();
+      observer.current = null;
+    };
+  }, [enabled]);
+
+  const measureColumn = useCallback(
+    (key: string) => (element: HTMLElement | null) => {
+      const previous = elements.current.get(key);
+      if (previous === element) {
+        return;
+      }
+      if (previous) {
+        observer.current?.unobserve(previous);
+        elements.current.delete(key);
+      }
+      if (element) {
+        elements.current.set(key, element);
+        observer.current?.observe(element);
+      }
+    },
+    []
+  );
+
+  return { widths, measureColumn };
+};
+
+/**
+ * Works out the sticky offsets of pinned columns: the sum of the widths of
+ * the pinned columns between each one and its edge.
+ * @param {string[]} keys - Every rendered column key, in display order.
+ * @param {Record<string, ColumnPin>} pins - The pinning of each key.
+ * @param {Record<string, number>} widths - The rendered width of each key.
+ * @returns {Record<string, React.CSSProperties>} Sticky styles for pinned keys.
+ */
+export const getPinnedStyles = (
+  keys: string[],
+  pins: Record<string, ColumnPin>,
+  widths: Record<string, number>
+): Record<string, React.CSSProperties> => {
+  const styles: Record<string, React.CSSProperties> = {};
+  let left = 0;
+  keys.forEach((key) => {
+    if (pins[key] === 'left') {
+      styles[key] = { position: 'sticky', left };
+      left += widths[key] ?? 0;
+    }
+  });
+  let right = 0;
+  [...keys].reverse().forEach((key) => {
+    if (pins[key] === 'right') {
+      styles[key] = { position: 'sticky', right };
+      right += widths[key] ?? 0;
+    }
+  });
+  return styles;
+};
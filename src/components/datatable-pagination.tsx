@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+
+// Define the pagination footer's props.
+// page: The zero-based index of the current page.
+// total: The total number of rows across all pages.
+// onChange: Called with the new page and page size.
+export interface DataTablePaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageSizeOptions: number[];
+  onChange: (page: number, pageSize: number) => void;
+}
+
+/**
+ * The DataTable footer with a page-size selector, a row range summary and
+ * first/previous/next/last page controls.
+ * @param {DataTablePaginationProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered pagination footer.
+ */
+export const DataTablePagination = ({
+  page,
+  pageSize,
+  total,
+  pageSizeOptions,
+  onChange,
+}: DataTablePaginationProps): JSX.Element => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstRow = total === 0 ? 0 : page * pageSize + 1;
+  const lastRow = Math.min(total, (page + 1) * pageSize);
+  const isFirstPage = page === 0;
+  const isLastPage = page >= pageCount - 1;
+
+  // Keep the first visible row on screen when the page size changes.
+  const handlePageSizeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextPageSize = Number(event.target.value);
+    onChange(Math.floor((page * pageSize) / nextPageSize), nextPageSize);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 pt-4 text-sm text-gray-500 dark:text-gray-400">
+      <label className="flex items-center space-x-2">
+        <span>Rows per page</span>
+        <select
+          className="rounded border border-gray-300 bg-white px-2 py-1 dark:border-gray-600 dark:bg-gray-800"
+          value={pageSize}
+          onChange={handlePageSizeChange}
+        >
+          {pageSizeOptions.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <span>
+        Rows {firstRow}–{lastRow} of {total}
+      </span>
+
+      <div className="flex items-center space-x-2">
+        <Button variant="outline" size="sm" disabled={isFirstPage} onClick={() => onChange(0, pageSize)}>
+          First
+        </Button>
+        <Button variant="outline" size="sm" disabled={isFirstPage} onClick={() => onChange(page - 1, pageSize)}>
+          Previous
+        </Button>
+        <span>
+          Page {page + 1} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" disabled={isLastPage} onClick={() => onChange(page + 1, pageSize)}>
+          Next
+        </Button>
+        <Button variant="outline" size="sm" disabled={isLastPage} onClick={() => onChange(pageCount - 1, pageSize)}>
+          Last
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+// Saving the DataTable's sort, filters, column layout and page between visits.
+import { useEffect, useRef } from 'react';
+import { ColumnFilterValue, FilterState } from './datatable-filters.ts';
+import { ColumnPin, ColumnState } from './datatable-layout.ts';
+import { SortConfig, SortState } from './datatable-sort.ts';
+
+// Where table state is saved. The methods match the Web Storage API, so
+// window.localStorage can be passed as is, and any key-value store can be
+// adapted, e.g. an in-memory map in tests.
+export interface TableStateStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+// The table state that is saved.
+// page: The zero-based page. Pages past the end fall back to the last page.
+export interface PersistedTableState {
+  sort: SortState;
+  filters: FilterState;
+  columnState: ColumnState;
+  page: number;
+  pageSize: number;
+}
+
+// The version of the saved format. Bump it when the format changes and add
+// a migration from the previous version.
+export const tableStateVersion = 1;
+
+// Upgrades saved state from one version to the next, keyed by the version
+// it upgrades from.
+// 0: Saved without a version, e.g. written by the app itself before it used
+//   the DataTable's persistence. Sort was a single column or null.
+const migrations: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  0: ({ sort, ...state }) => ({ ...state, sort: isRecord(sort) ? [sort] : sort ?? [] }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isSortConfig = (value: unknown): value is SortConfig =>
+  isRecord(value) && typeof value.key === 'string' && (value.direction === 'asc' || value.direction === 'desc');
+
+const isColumnFilter = (value: unknown): value is ColumnFilterValue => {
+  if (!isRecord(value)) {
+    return false;
+  }
+  switch (value.type) {
+    case 'text':
+      return (value.operator === 'contains' || value.operator === 'equals') && typeof value.value === 'string';
+    case 'range':
+      return isOptionalNumber(value.min) && isOptionalNumber(value.max);
+    case 'dateRange':
+      return isOptionalString(value.from) && isOptionalString(value.to);
+    case 'enum':
+      return isStringArray(value.values);
+    default:
+      return false;
+  }
+};
+
+const isFilterState = (value: unknown): value is FilterState =>
+  isRecord(value) &&
+  typeof value.search === 'string' &&
+  isRecord(value.columns) &&
+  Object.values(value.columns).every(isColumnFilter);
+
+const isColumnPin = (value: unknown): value is ColumnPin => value === 'left' || value === 'right' || value === false;
+
+const isColumnState = (value: unknown): value is ColumnState =>
+  isRecord(value) &&
+  isStringArray(value.order) &&
+  isStringArray(value.hidden) &&
+  isRecord(value.widths) &&
+  Object.values(value.widths).every((width) => typeof width === 'number' && width > 0) &&
+  isRecord(value.pinned) &&
+  Object.values(value.pinned).every(isColumnPin);
+
+const isPageIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isPageSize = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Checks each saved field. Invalid fields are dropped so they keep their defaults.
+const validators: { [K in keyof PersistedTableState]: (value: unknown) => value is PersistedTableState[K] } = {
+  sort: (value): value is SortState => Array.isArray(value) && value.every(isSortConfig),
+  filters: isFilterState,
+  columnState: isColumnState,
+  page: isPageIndex,
+  pageSize: isPageSize,
+};
+
+/**
+ * Reads saved table state, upgrading it from older versions. Fields that
+ * are missing or invalid are left out, so they keep their defaults.
+ * @param {TableStateStorage} storage - The store to read from.
+ * @param {string} key - The key the state was saved under.
+ * @returns {Partial<PersistedTableState>} The saved fields. Empty when nothing
+ *   is saved, the saved value is corrupt or it was written by a newer version.
+ */
+export const loadTableState = (storage: TableStateStorage, key: string): Partial<PersistedTableState> => {
+  let saved: unknown;
+  try {
+    const raw = storage.getItem(key);
+    saved = raw === null ? null : JSON.parse(raw);
+  } catch {
+    return {};
+  }
+  if (!isRecord(saved)) {
+    return {};
+  }
+  let version = saved.version === undefined ? 0 : saved.version;
+  // State from a newer version may mean something else, so none of it is used.
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || version > tableStateVersion) {
+    return {};
+  }
+  let state: Record<string, unknown> = saved;
+  while (version < tableStateVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return {};
+    }
+    state = migrate(state);
+    version++;
+  }
+  const result: Partial<PersistedTableState> = {};
+  (Object.keys(validators) as (keyof PersistedTableState)[]).forEach((field) => {
+    if (validators[field](state[field])) {
+      Object.assign(result, { [field]: state[field] });
+    }
+  });
+  return result;
+};
+
+/**
+ * Saves table state, or removes it when it matches the defaults.
+ * Errors from the store, such as a full quota, are ignored.
+ * @param {TableStateStorage} storage - The store to write to.
+ * @param {string} key - The key to save the state under.
+ * @param {PersistedTableState} state - The current state.
+ * @param {PersistedTableState} defaults - The state the table starts with when nothing is saved.
+ */
+export const saveTableState = (
+  storage: TableStateStorage,
+  key: string,
+  state: PersistedTableState,
+  defaults: PersistedTableState
+) => {
+  try {
+    if (JSON.stringify(state) === JSON.stringify(defaults)) {
+      storage.removeItem(key);
+    } else {
+      storage.setItem(key, JSON.stringify({ version: tableStateVersion, ...state }));
+    }
+  } catch {
+    // Saving is best effort; the table works the same without it.
+  }
+};
+
+/**
+ * Saves table state whenever it changes, once it differs from what was
+ * last saved. Does nothing without a key.
+ * @param {string | undefined} key - The key to save the state under.
+ * @param {TableStateStorage} storage - The store to write to.
+ * @param {PersistedTableState} state - The current state.
+ * @param {PersistedTableState} defaults - The state the table starts with when nothing is saved.
+ */
+export const useSaveTableState = (
+  key: string | undefined,
+  storage: TableStateStorage,
+  state: PersistedTableState,
+  defaults: PersistedTableState
+) => {
+  // Compare by value, so parents can pass inline objects.
+  const stateKey = JSON.stringify(state);
+  const defaultsKey = JSON.stringify(defaults);
+  const lastSaved = useRef<string | null>(null);
+  const latest = useRef({ state, defaults });
+  latest.current = { state, defaults };
+
+  useEffect(() => {
+    if (key === undefined || lastSaved.current === stateKey + defaultsKey) {
+      return;
+    }
+    // Skip the first render, so loading state doesn't write it straight back.
+    if (lastSaved.current !== null) {
+      saveTableState(storage, key, latest.current.state, latest.current.defaults);
+    }
+    lastSaved.current = stateKey + defaultsKey;
+  }, [key, storage, stateKey, defaultsKey]);
+};
+
+/**
+ * Adapts a Web Storage object. Browsers can throw when storage is disabled,
+ * so the object is looked up on each call and errors read as empty storage.
+ * @param {() => Storage} getStorage - Returns the storage object.
+ * @returns {TableStateStorage} The adapter.
+ */
+export const createWebStorage = (getStorage: () => Storage): TableStateStorage => ({
+  getItem: (key) => {
+    try {
+      return getStorage().getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  setItem: (key, value) => getStorage().setItem(key, value),
+  removeItem: (key) => getStorage().removeItem(key),
+});
+
+// Saves state in localStorage, kept across visits.
+export const localTableStorage = createWebStorage(() => window.localStorage);
+
+// Saves state in sessionStorage, kept until the tab is closed.
+export const sessionTableStorage = createWebStorage(() => window.sessionStorage);
+
+/**
+ * Saves state in the page URL's query string, one parameter per key, so a
+ * view can be bookmarked or shared. The URL is replaced, not pushed, so
+ * changes don't add history entries.
+ * @returns {TableStateStorage} The adapter.
+ */
+export const createUrlStorage = (): TableStateStorage => {
+  const update = (change: (params: URLSearchParams) => void) => {
+    const url = new URL(window.location.href);
+    change(url.searchParams);
+    window.history.replaceState(window.history.state, '', url);
+  };
+  return {
+    getItem: (key) => new URLSearchParams(window.location.search).get(key),
+    setItem: (key, value) => update((params) => params.set(key, value)),
+    removeItem: (key) => update((params) => params.delete(key)),
+  };
+};
+
+/**
+ * Saves state in memory, e.g. for tests or to keep state while navigating
+ * within a single-page app.
+ * @param {Record<string, string>} initial - Values to start with.
+ * @returns {TableStateStorage} The adapter.
+ */
+export const createMemoryStorage = (initial: Record<string, string> = {}): TableStateStorage => {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+};
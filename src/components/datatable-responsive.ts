@@ -0,0 +1,47 @@
+// Switching the DataTable to a card layout on narrow screens.
+import { useLayoutEffect, useState } from 'react';
+import { Column } from './datatable-columns.ts';
+
+// The container width, in pixels, below which `responsive: true` shows cards.
+export const defaultCardBreakpoint = 640;
+
+/**
+ * Tracks whether a container is narrower than a breakpoint. The container is
+ * observed rather than the viewport, so a table in a narrow sidebar or
+ * split view switches too.
+ * @param {number | null} breakpoint - The width in pixels, or null to always report false.
+ * @returns A ref callback for the container and whether it is narrower than the breakpoint.
+ */
+export const useCompactLayout = (breakpoint: number | null) => {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const [width, setWidth] = useState<number | null>(null);
+
+  // Measure before painting, so a narrow screen never flashes the table.
+  useLayoutEffect(() => {
+    if (breakpoint === null || !element) {
+      return;
+    }
+    setWidth(element.getBoundingClientRect().width);
+    const observer = new ResizeObserver((entries) => setWidth(entries[0].contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [breakpoint, element]);
+
+  return {
+    containerRef: setElement,
+    isCompact: breakpoint !== null && width !== null && width < breakpoint,
+  };
+};
+
+/**
+ * Splits the visible columns into the card's title and its labelled fields.
+ * @param {Column<T>[]} columns - The visible columns, in display order.
+ * @returns The columns shown in the title and those shown as fields.
+ */
+export const getCardColumns = <T,>(columns: Column<T>[]) => {
+  const priorityOf = (column: Column<T>, index: number) => column.responsive ?? (index === 0 ? 'primary' : 'secondary');
+  return {
+    primary: columns.filter((column, index) => priorityOf(column, index) === 'primary'),
+    secondary: columns.filter((column, index) => priorityOf(column, index) === 'secondary'),
+  };
+};
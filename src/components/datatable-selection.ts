@@ -0,0 +1,90 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useControllableState } from '@/lib/hooks';
+
+// A row's stable id, as returned by the DataTable's getRowId.
+export type RowId = string | number;
+
+// single: At most one row is selected; selecting a row replaces the selection.
+// multiple: Any number of rows can be selected.
+export type SelectionMode = 'single' | 'multiple';
+
+/**
+ * Returns the selection after a row is toggled.
+ * In multiple mode, a range toggle selects every row between the anchor
+ * and the clicked row (in display order), in addition to the current selection.
+ * @param {RowId[]} selected - The currently selected ids.
+ * @param {RowId} id - The toggled row.
+ * @param {{ mode: SelectionMode; anchor?: RowId | null; orderedIds?: RowId[] }} options -
+ *   The selection mode, and for range selection the anchor row and the rows in display order.
+ * @returns {RowId[]} The new selection.
+ */
+export const toggleRowSelection = (
+  selected: RowId[],
+  id: RowId,
+  { mode, anchor = null, orderedIds = [] }: { mode: SelectionMode; anchor?: RowId | null; orderedIds?: RowId[] }
+): RowId[] => {
+  const isSelected = selected.includes(id);
+
+  if (mode === 'single') {
+    return isSelected ? [] : [id];
+  }
+
+  const anchorIndex = anchor === null ? -1 : orderedIds.indexOf(anchor);
+  const index = orderedIds.indexOf(id);
+  if (anchorIndex !== -1 && index !== -1) {
+    const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+    const range = orderedIds.slice(start, end + 1);
+    return [...selected, ...range.filter((rangeId) => !selected.includes(rangeId))];
+  }
+
+  return isSelected ? selected.filter((selectedId) => selectedId !== id) : [...selected, id];
+};
+
+// Options for useRowSelection.
+export interface RowSelectionOptions {
+  mode: SelectionMode;
+  selectedRowIds?: RowId[];
+  defaultSelectedRowIds: RowId[];
+  onChange?: (selectedRowIds: RowId[]) => void;
+}
+
+/**
+ * Tracks selected rows by id, so the selection survives re-sorting, paging
+ * and parents passing fresh row objects.
+ * @param {RowSelectionOptions} options - The mode and the controlled or default selection.
+ * @returns The selected ids and functions to change them.
+ */
+export const useRowSelection = ({ mode, selectedRowIds, defaultSelectedRowIds, onChange }: RowSelectionOptions) => {
+  const [selectedIds, setSelectedIds] = useControllableState(selectedRowIds, defaultSelectedRowIds, onChange);
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  // The last row toggled without shift, where range selection starts.
+  const anchor = useRef<RowId | null>(null);
+
+  const isSelected = useCallback((id: RowId) => selectedSet.has(id), [selectedSet]);
+
+  // Toggle a single row, or select a range when `range` is set.
+  const toggle = (id: RowId, range = false, orderedIds: RowId[] = []) => {
+    setSelectedIds(
+      toggleRowSelection(selectedIds, id, {
+        mode,
+        anchor: range ? anchor.current : null,
+        orderedIds,
+      })
+    );
+    if (!range) {
+      anchor.current = id;
+    }
+  };
+
+  // Select or deselect a set of rows, leaving the others untouched.
+  const setMany = (ids: RowId[], selected: boolean) => {
+    if (selected) {
+      setSelectedIds([...selectedIds, ...ids.filter((id) => !selectedSet.has(id))]);
+    } else {
+      const removed = new Set(ids);
+      setSelectedIds(selectedIds.filter((id) => !removed.has(id)));
+    }
+  };
+
+  return { selectedIds, isSelected, toggle, setMany, replace: setSelectedIds };
+};
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Column, toFilterColumns, toSortColumns } from './datatable-columns.ts';
+import { FilterState, filterRows } from './datatable-filters.ts';
+import { SortState, sortRows } from './datatable-sort.ts';
+
+// Everything a server needs to know to return one page of rows.
+// page: The zero-based page index.
+// sort: The sorted columns' keys in priority order, which the server maps to fields.
+export interface DataTableQuery {
+  sort: SortState;
+  filters: FilterState;
+  page: number;
+  pageSize: number;
+}
+
+// One page of rows plus the total number of rows matching the query.
+export interface DataTablePage<T> {
+  rows: T[];
+  total: number;
+}
+
+export type FetchRows<T> = (query: DataTableQuery) => Promise<DataTablePage<T>>;
+
+// The request state exposed by useServerRows.
+export interface ServerRowsState<T> {
+  rows: T[];
+  total: number;
+  loading: boolean;
+  error: unknown;
+  reload: () => void;
+}
+
+/**
+ * Loads rows through a fetcher whenever the query changes.
+ * Responses that arrive after a newer request has been issued are dropped,
+ * so a slow page can never overwrite a faster, more recent one.
+ * A new fetcher alone doesn't start a request, so it can be passed inline;
+ * call reload() to refetch with a fetcher that reads other state.
+ * @param {FetchRows<T> | undefined} fetchRows - The fetcher. When undefined, no request is made.
+ * @param {DataTableQuery} query - The current sort, filters and page.
+ * @returns {ServerRowsState<T>} The latest rows and request state.
+ */
+export const useServerRows = <T,>(
+  fetchRows: FetchRows<T> | undefined,
+  query: DataTableQuery
+): ServerRowsState<T> => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(Boolean(fetchRows));
+  const [error, setError] = useState<unknown>(null);
+  // Incremented on every request; only the latest request may update state.
+  const requestId = useRef(0);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  // Keep the latest query in a ref and compare by value, so parents can pass
+  // inline objects without triggering a request on every render.
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  // Likewise keep the latest fetcher, so an inline function doesn't refetch.
+  const fetchRef = useRef(fetchRows);
+  fetchRef.current = fetchRows;
+  const canFetch = Boolean(fetchRows);
+  const queryKey = JSON.stringify([
+    query.sort,
+    query.filters,
+    query.page,
+    query.pageSize,
+  ]);
+
+  useEffect(() => {
+    const fetchLatest = fetchRef.current;
+    if (!fetchLatest) {
+      return;
+    }
+    const id = ++requestId.current;
+    setLoading(true);
+    setError(null);
+
+    fetchLatest(queryRef.current).then(
+      (result) => {
+        if (id !== requestId.current) {
+          return;
+        }
+        setRows(result.rows);
+        setTotal(result.total);
+        setLoading(false);
+      },
+      (reason: unknown) => {
+        if (id !== requestId.current) {
+          return;
+        }
+        setError(reason);
+        setLoading(false);
+      }
+    );
+
+    // Invalidate the request if the query changes or the table unmounts.
+    return () => {
+      requestId.current++;
+    };
+  }, [canFetch, queryKey, reloadToken]);
+
+  const reload = useCallback(() => setReloadToken((token) => token + 1), []);
+
+  return { rows, total, loading, error, reload };
+};
+
+/**
+ * Creates a fetcher that serves rows from an in-memory array, applying the
+ * query's filters, sort and page the same way a server would.
+ * Useful for stories, tests and prototyping before an API exists.
+ * @param {T[]} data - The full dataset.
+ * @param {{ latency?: number; columns?: Column<T>[] }} options - Simulated network latency in
+ *   milliseconds, and the table's columns so that accessors are honoured.
+ * @returns {FetchRows<T>} A fetcher for the DataTable's fetchRows prop.
+ */
+export const createMemoryFetcher = <T,>(
+  data: T[],
+  { latency = 0, columns = [] }: { latency?: number; columns?: Column<T>[] } = {}
+): FetchRows<T> => {
+  const sortColumns = toSortColumns(columns);
+  const filterColumns = toFilterColumns(columns);
+
+  return (query) => {
+    const filtered = filterRows(data, query.filters, filterColumns);
+    const sorted = sortRows(filtered, query.sort, sortColumns);
+    const start = query.page * query.pageSize;
+    const result: DataTablePage<T> = {
+      rows: sorted.slice(start, start + query.pageSize),
+      total: sorted.length,
+    };
+
+    return new Promise((resolve) => {
+      setTimeout(() => resolve(result), latency);
+    });
+  };
+};
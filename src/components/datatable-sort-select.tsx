@@ -0,0 +1,54 @@
+import { ArrowDownIcon, ArrowUpIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Column, getColumnLabel } from './datatable-columns.ts';
+import { SortState } from './datatable-sort.ts';
+
+// Define the sort select's props.
+// columns: The columns that can be sorted by.
+// sort: The current sort. Only its first column is shown.
+// onSortChange: Called with the new sort, which sorts by a single column.
+export interface DataTableSortSelectProps<T> {
+  columns: Column<T>[];
+  sort: SortState;
+  onSortChange: (sort: SortState) => void;
+}
+
+/**
+ * A compact sort control for the card layout, where there are no headers
+ * to click: a column picker and a direction toggle.
+ * @param {DataTableSortSelectProps<T>} props - The props for the component.
+ * @returns {JSX.Element} The rendered sort select.
+ */
+export const DataTableSortSelect = <T,>({ columns, sort, onSortChange }: DataTableSortSelectProps<T>): JSX.Element => {
+  const current = sort[0];
+  const isDescending = current?.direction === 'desc';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        aria-label="Sort by"
+        className="h-10 rounded-lg border-2 border-gray-300 bg-white px-2 text-sm dark:border-gray-600 dark:bg-gray-800"
+        value={current?.key ?? ''}
+        onChange={(event) =>
+          onSortChange(event.target.value === '' ? [] : [{ key: event.target.value, direction: 'asc' }])
+        }
+      >
+        <option value="">Not sorted</option>
+        {columns.map((column) => (
+          <option key={String(column.key)} value={String(column.key)}>
+            {getColumnLabel(column)}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="icon"
+        aria-label={`Sort direction: ${isDescending ? 'descending' : 'ascending'}`}
+        disabled={!current}
+        onClick={() => current && onSortChange([{ key: current.key, direction: isDescending ? 'asc' : 'desc' }])}
+      >
+        {isDescending ? <ArrowDownIcon className="h-4 w-4" /> : <ArrowUpIcon className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+// Sorting helpers shared by the DataTable and its data sources.
+
+export type SortDirection = 'asc' | 'desc';
+
+// How values are compared. When omitted, the type is inferred from the values.
+export type SortType = 'text' | 'number' | 'date' | 'boolean';
+
+// The key of a sorted column and its direction.
+export interface SortConfig {
+  key: string;
+  direction: SortDirection;
+}
+
+// The sort state: sorted columns in priority order. The first entry is the
+// primary sort; later entries break ties.
+export type SortState = SortConfig[];
+
+// How a column is sorted.
+// getValue: Reads the value to sort by from a row.
+// sortFn: A custom comparator for ascending order. It receives the two values
+//   and their rows, and overrides sortType.
+export interface SortColumn<T> {
+  key: string;
+  getValue: (row: T) => unknown;
+  sortType?: SortType;
+  sortFn?: (a: unknown, b: unknown, rowA: T, rowB: T) => number;
+}
+
+// Table-wide sort options.
+// locale / collatorOptions: Passed to Intl.Collator for text comparison.
+// nulls: Where empty values go, independent of the sort direction.
+export interface SortOptions {
+  locale?: string;
+  collatorOptions?: Intl.CollatorOptions;
+  nulls?: 'first' | 'last';
+}
+
+const defaultCollatorOptions: Intl.CollatorOptions = { numeric: true, sensitivity: 'base' };
+
+/**
+ * Returns the next sort state after a header is activated.
+ * A plain click sorts by that column alone, toggling its direction.
+ * A multi-sort click (e.g. shift-click) adds the column with the lowest
+ * priority, flips it if already sorted, and removes it after descending.
+ * @param {SortState} sort - The current sort state.
+ * @param {string} key - The key of the activated column.
+ * @param {boolean} multi - Whether the other sorted columns are kept.
+ * @returns {SortState} The new sort state.
+ */
+export const toggleSort = (sort: SortState, key: string, multi: boolean): SortState => {
+  const existing = sort.find((config) => config.key === key);
+
+  if (!multi) {
+    const direction = existing && sort.length === 1 && existing.direction === 'asc' ? 'desc' : 'asc';
+    return [{ key, direction }];
+  }
+  if (!existing) {
+    return [...sort, { key, direction: 'asc' }];
+  }
+  if (existing.direction === 'asc') {
+    return sort.map((config) => (config.key === key ? { key, direction: 'desc' } : config));
+  }
+  return sort.filter((config) => config.key !== key);
+};
+
+// Normalize a value for the given sort type. Returns null for empty or
+// unparseable values so they can be placed consistently.
+const normalize = (value: unknown, sortType: SortType): string | number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  switch (sortType) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isNaN(number) ? null : number;
+    }
+    case 'date': {
+      const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+      return Number.isNaN(time) ? null : time;
+    }
+    case 'boolean':
+      return value ? 1 : 0;
+    default:
+      return String(value);
+  }
+};
+
+// Guess the sort type from a column's values when none is configured.
+const inferSortType = <T,>(rows: T[], getValue: (row: T) => unknown): SortType => {
+  for (const row of rows) {
+    const value = getValue(row);
+    if (value === null || value === undefined || value === '') {
+      continue;
+    }
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return 'number';
+    }
+    if (value instanceof Date) {
+      return 'date';
+    }
+    if (typeof value === 'boolean') {
+      return 'boolean';
+    }
+    return 'text';
+  }
+  return 'text';
+};
+
+/**
+ * Returns a sorted copy of the rows for the given sort state.
+ * Values are read and normalized once per row, so large datasets sort quickly.
+ * The sort is stable: rows that compare equal keep their original order.
+ * @param {T[]} rows - The rows to sort.
+ * @param {SortState} sort - The sorted columns in priority order.
+ * @param {SortColumn<T>[]} columns - How each column is sorted. Keys without
+ *   a column are read directly from the row.
+ * @param {SortOptions} options - Collation and empty value placement.
+ * @returns {T[]} A new, sorted array.
+ */
+export const sortRows = <T,>(
+  rows: T[],
+  sort: SortState,
+  columns: SortColumn<T>[] = [],
+  { locale, collatorOptions = defaultCollatorOptions, nulls = 'last' }: SortOptions = {}
+): T[] => {
+  if (sort.length === 0) {
+    return [...rows];
+  }
+
+  const collator = new Intl.Collator(locale, collatorOptions);
+  const nullOrder = nulls === 'first' ? -1 : 1;
+
+  // Resolve each sorted key into a comparator over pre-computed values.
+  const criteria = sort.map(({ key, direction }) => {
+    const column = columns.find((c) => c.key === key);
+    const getValue = column?.getValue ?? ((row: T) => row[key as keyof T]);
+    const sortType = column?.sortType ?? inferSortType(rows, getValue);
+    const sign = direction === 'asc' ? 1 : -1;
+    const values = rows.map(getValue);
+
+    const sortFn = column?.sortFn;
+    if (sortFn) {
+      return (a: number, b: number): number => sign * sortFn(values[a], values[b], rows[a], rows[b]);
+    }
+
+    const normalized = values.map((value) => normalize(value, sortType));
+    return (a: number, b: number): number => {
+      const aValue = normalized[a];
+      const bValue = normalized[b];
+      if (aValue === null || bValue === null) {
+        return aValue === bValue ? 0 : aValue === null ? nullOrder : -nullOrder;
+      }
+      if (typeof aValue === 'string' && typeof bValue === 'string') {
+        return sign * collator.compare(aValue, bValue);
+      }
+      return sign * (aValue < bValue ? -1 : aValue > bValue ? 1 : 0);
+    };
+  });
+
+  const indexes = rows.map((_, index) => index);
+  indexes.sort((a, b) => {
+    for (const compare of criteria) {
+      const result = compare(a, b);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return a - b;
+  });
+  return indexes.map((index) => rows[index]);
+};
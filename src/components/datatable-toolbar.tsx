@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import InputField from './inputfield.tsx';
+import { Column, getColumnLabel, getFilterType } from './datatable-columns.ts';
+import { ColumnFilterValue, FilterState, describeFilter, hasActiveFilters, isFilterActive } from './datatable-filters.ts';
+
+// Define the toolbar's props.
+// getFilterOptions: Returns the choices for a column's enum filter.
+// actions: Extra controls rendered at the end of the toolbar.
+export interface DataTableToolbarProps<T> {
+  columns: Column<T>[];
+  filters: FilterState;
+  onFiltersChange: (filters: FilterState) => void;
+  getFilterOptions: (column: Column<T>) => string[];
+  actions?: React.ReactNode;
+}
+
+// Parse an optional number input, treating an empty field as no bound.
+const toOptionalNumber = (value: string): number | undefined =>
+  value === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+// Define the filter editor's props.
+interface ColumnFilterEditorProps {
+  label: string;
+  type: ColumnFilterValue['type'];
+  filter: ColumnFilterValue | undefined;
+  options: string[];
+  onChange: (filter: ColumnFilterValue) => void;
+}
+
+/**
+ * The input for a single column filter, chosen by the filter type.
+ * @param {ColumnFilterEditorProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered filter editor.
+ */
+const ColumnFilterEditor = ({ label, type, filter, options, onChange }: ColumnFilterEditorProps): JSX.Element => {
+  const labelClasses = 'block text-gray-700 dark:text-gray-300 text-sm font-semibold mb-1';
+
+  if (type === 'text') {
+    const current = filter?.type === 'text' ? filter : { type: 'text' as const, operator: 'contains' as const, value: '' };
+    return (
+      <div>
+        <span className={labelClasses}>{label}</span>
+        <div className="flex space-x-2">
+          <select
+            aria-label={`${label} match`}
+            className="mb-4 h-10 rounded-lg border-2 border-gray-300 bg-white px-2 text-sm dark:border-gray-600 dark:bg-gray-800"
+            value={current.operator}
+            onChange={(event) => onChange({ ...current, operator: event.target.value as 'contains' | 'equals' })}
+          >
+            <option value="contains">Contains</option>
+            <option value="equals">Equals</option>
+          </select>
+          <div className="flex-1">
+            <InputField
+              type="text"
+              size="sm"
+              placeholder="Value"
+              aria-label={`${label} value`}
+              value={current.value}
+              onChange={(event) => onChange({ ...current, value: event.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (type === 'range') {
+    const current = filter?.type === 'range' ? filter : { type: 'range' as const };
+    return (
+      <div>
+        <span className={labelClasses}>{label}</span>
+        <div className="flex space-x-2">
+          <InputField
+            type="number"
+            size="sm"
+            placeholder="Min"
+            aria-label={`${label} minimum`}
+            value={current.min?.toString() ?? ''}
+            onChange={(event) => onChange({ ...current, min: toOptionalNumber(event.target.value) })}
+          />
+          <InputField
+            type="number"
+            size="sm"
+            placeholder="Max"
+            aria-label={`${label} maximum`}
+            value={current.max?.toString() ?? ''}
+            onChange={(event) => onChange({ ...current, max: toOptionalNumber(event.target.value) })}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (type === 'dateRange') {
+    const current = filter?.type === 'dateRange' ? filter : { type: 'dateRange' as const };
+    return (
+      <div>
+        <span className={labelClasses}>{label}</span>
+        <div className="flex space-x-2">
+          <InputField
+            type="date"
+            size="sm"
+            aria-label={`${label} from`}
+            value={current.from ?? ''}
+            onChange={(event) => onChange({ ...current, from: event.target.value || undefined })}
+          />
+          <InputField
+            type="date"
+            size="sm"
+            aria-label={`${label} to`}
+            value={current.to ?? ''}
+            onChange={(event) => onChange({ ...current, to: event.target.value || undefined })}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const selected = filter?.type === 'enum' ? filter.values : [];
+  const toggleOption = (option: string) => {
+    const values = selected.includes(option) ? selected.filter((value) => value !== option) : [...selected, option];
+    onChange({ type: 'enum', values });
+  };
+  return (
+    <fieldset>
+      <legend className={labelClasses}>{label}</legend>
+      <div className="flex max-h-32 flex-col space-y-1 overflow-auto text-sm text-gray-700 dark:text-gray-300">
+        {options.map((option) => (
+          <label key={option} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              className="form-checkbox rounded text-blue-500"
+              checked={selected.includes(option)}
+              onChange={() => toggleOption(option)}
+            />
+            <span>{option}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
+
+/**
+ * The DataTable toolbar with a global search box, a panel of per-column
+ * filters, chips for the active filters and a "clear all" action.
+ * @param {DataTableToolbarProps<T>} props - The props for the component.
+ * @returns {JSX.Element} The rendered toolbar.
+ */
+export const DataTableToolbar = <T,>({
+  columns,
+  filters,
+  onFiltersChange,
+  getFilterOptions,
+  actions,
+}: DataTableToolbarProps<T>): JSX.Element => {
+  // Use state to track whether the filter panel is open.
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const filterableColumns = columns.filter((column) => getFilterType(column) !== null);
+  const activeColumnFilters = columns.filter((column) => isFilterActive(filters.columns[String(column.key)]));
+
+  // Function to set or remove a single column's filter.
+  const setColumnFilter = (key: string, filter: ColumnFilterValue | undefined) => {
+    const nextColumns = { ...filters.columns };
+    if (filter) {
+      nextColumns[key] = filter;
+    } else {
+      delete nextColumns[key];
+    }
+    onFiltersChange({ ...filters, columns: nextColumns });
+  };
+
+  const chipClasses =
+    'inline-flex items-center rounded-full bg-blue-100 px-3 py-1 text-xs font-medium text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+
+  return (
+    <div className="pb-4">
+      <div className="flex items-start space-x-2">
+        {/* Global search */}
+        <div className="flex-1">
+          <InputField
+            type="search"
+            size="sm"
+            placeholder="Search..."
+            aria-label="Search rows"
+            value={filters.search}
+            onChange={(event) => onFiltersChange({ ...filters, search: event.target.value })}
+          />
+        </div>
+        {filterableColumns.length > 0 && (
+          <Button
+            variant="outline"
+            aria-expanded={isPanelOpen}
+            onClick={() => setIsPanelOpen(!isPanelOpen)}
+          >
+            Filters{activeColumnFilters.length > 0 ? ` (${activeColumnFilters.length})` : ''}
+          </Button>
+        )}
+        {actions}
+      </div>
+
+      {/* Per-column filters */}
+      {isPanelOpen && (
+        <div className="mb-4 grid gap-4 rounded-lg border border-gray-200 p-4 sm:grid-cols-2 lg:grid-cols-3 dark:border-gray-700">
+          {filterableColumns.map((column) => {
+            const key = String(column.key);
+            const type = getFilterType(column);
+            return (
+              type && (
+                <ColumnFilterEditor
+                  key={key}
+                  label={getColumnLabel(column)}
+                  type={type}
+                  filter={filters.columns[key]}
+                  options={type === 'enum' ? getFilterOptions(column) : []}
+                  onChange={(filter) => setColumnFilter(key, filter)}
+                />
+              )
+            );
+          })}
+        </div>
+      )}
+
+      {/* Active filter chips */}
+      {hasActiveFilters(filters) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.search.trim() !== '' && (
+            <span className={chipClasses}>
+              Search: “{filters.search.trim()}”
+              <button
+                type="button"
+                className="ml-1"
+                aria-label="Clear search"
+                onClick={() => onFiltersChange({ ...filters, search: '' })}
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </span>
+          )}
+          {activeColumnFilters.map((column) => {
+            const key = String(column.key);
+            const label = getColumnLabel(column);
+            return (
+              <span key={key} className={chipClasses}>
+                {label}: {describeFilter(filters.columns[key])}
+                <button
+                  type="button"
+                  className="ml-1"
+                  aria-label={`Remove ${label} filter`}
+                  onClick={() => setColumnFilter(key, undefined)}
+                >
+                  <XIcon className="h-3 w-3" />
+                </button>
+              </span>
+            );
+          })}
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto px-1"
+            onClick={() => onFiltersChange({ search: '', columns: {} })}
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+// Hierarchical rows and expandable detail panels for the DataTable.
+import { TableItem } from './datatable-grouping.ts';
+
+// Reads a row's child rows. Rows without children return undefined or [].
+export type GetSubRows<T> = (row: T) => T[] | undefined;
+
+// A tree of rows after filtering and sorting.
+// rows: The top-level rows.
+// children: The kept child rows of each row, in order.
+// allRows: Every kept row, parents before their children.
+export interface RowTree<T> {
+  rows: T[];
+  children: Map<T, T[]>;
+  allRows: T[];
+}
+
+/**
+ * Lists every row in a tree, parents before their children.
+ * @param {T[]} rows - The top-level rows.
+ * @param {GetSubRows<T>} getSubRows - Reads a row's children.
+ * @returns {T[]} All rows, depth first.
+ */
+export const flattenTree = <T,>(rows: T[], getSubRows: GetSubRows<T>): T[] => {
+  const result: T[] = [];
+  const visit = (row: T) => {
+    result.push(row);
+    getSubRows(row)?.forEach(visit);
+  };
+  rows.forEach(visit);
+  return result;
+};
+
+/**
+ * Filters and orders a tree. A row is kept when it matches or when any of
+ * its descendants is kept, so matches are always shown under their parents.
+ * @param {T[]} rows - The top-level rows.
+ * @param {GetSubRows<T>} getSubRows - Reads a row's children.
+ * @param {Set<T> | null} matches - The rows that pass the filters, or null to keep every row.
+ * @param {(rows: T[]) => T[]} order - Sorts one level of sibling rows.
+ * @returns {RowTree<T>} The kept rows, sorted level by level.
+ */
+export const buildRowTree = <T,>(
+  rows: T[],
+  getSubRows: GetSubRows<T>,
+  matches: Set<T> | null,
+  order: (rows: T[]) => T[]
+): RowTree<T> => {
+  const children = new Map<T, T[]>();
+  const prune = (siblings: T[]): T[] =>
+    order(
+      siblings.filter((row) => {
+        const kept = prune(getSubRows(row) ?? []);
+        if (kept.length > 0) {
+          children.set(row, kept);
+        }
+        return kept.length > 0 || !matches || matches.has(row);
+      })
+    );
+  const topRows = prune(rows);
+  return { rows: topRows, children, allRows: flattenTree(topRows, (row) => children.get(row)) };
+};
+
+// Options for expandRowItems.
+// getChildren: Returns a row's child rows to show when it is expanded.
+// isExpanded: Whether a row's children are shown.
+// isDetailOpen: Whether a row's detail panel is shown.
+export interface ExpandRowItemsOptions<T> {
+  getChildren: (row: T) => T[];
+  isExpanded: (row: T) => boolean;
+  isDetailOpen: (row: T) => boolean;
+}
+
+/**
+ * Adds the detail panels and child rows of expanded rows after each row.
+ * @param {TableItem<T>[]} items - The group headers and top-level rows.
+ * @param {ExpandRowItemsOptions<T>} options - Which rows are expanded.
+ * @returns {TableItem<T>[]} The items with panels and descendants inserted.
+ */
+export const expandRowItems = <T,>(items: TableItem<T>[], options: ExpandRowItemsOptions<T>): TableItem<T>[] => {
+  const result: TableItem<T>[] = [];
+  const visit = (row: T, depth: number) => {
+    result.push({ type: 'row', row, depth });
+    if (options.isDetailOpen(row)) {
+      result.push({ type: 'detail', row, depth });
+    }
+    if (options.isExpanded(row)) {
+      options.getChildren(row).forEach((child) => visit(child, depth + 1));
+    }
+  };
+  items.forEach((item) => {
+    if (item.type === 'row') {
+      visit(item.row, item.depth);
+    } else {
+      result.push(item);
+    }
+  });
+  return result;
+};
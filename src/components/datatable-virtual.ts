@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+// Options for useVirtualRows.
+// keys: A stable key per row, used to remember measured row heights across re-sorts.
+// rowHeight: A fixed height for every row, in pixels. Fastest; nothing is measured.
+// estimatedRowHeight: The height assumed for rows that have not been measured yet,
+//   used when rowHeight is not set.
+// overscan: The number of extra rows rendered above and below the viewport.
+export interface VirtualRowsOptions {
+  enabled: boolean;
+  keys: React.Key[];
+  rowHeight?: number;
+  estimatedRowHeight?: number;
+  overscan?: number;
+}
+
+// The rows to render and the space to reserve around them.
+// scrollRef: A ref callback for the scroll container. The container can be
+//   swapped, e.g. between the table and the card list, and is observed anew.
+export interface VirtualRowsState {
+  scrollRef: (element: HTMLDivElement | null) => void;
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+  measureRow: (key: React.Key) => (element: HTMLElement | null) => void;
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Works out which rows of a long list are visible in a scroll container.
+ * Only those rows, plus the overscan, need to be rendered; the rest is
+ * replaced by padding so the scrollbar keeps its full size.
+ * @param {VirtualRowsOptions} options - The rows and sizing options.
+ * @returns {VirtualRowsState} The visible range and the padding around it.
+ */
+export const useVirtualRows = ({
+  enabled,
+  keys,
+  rowHeight,
+  estimatedRowHeight = 48,
+  overscan = 5,
+}: VirtualRowsOptions): VirtualRowsState => {
+  const [scrollElement, setScrollElement] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Measured heights by row key. A new map is stored on every change, so the
+  // offsets are recomputed when a row is measured.
+  const [measuredHeights, setMeasuredHeights] = useState(() => new Map<React.Key, number>());
+
+  // Track the scroll position and the size of the scroll container.
+  useEffect(() => {
+    const element = scrollElement;
+    if (!enabled || !element) {
+      return;
+    }
+    setScrollTop(element.scrollTop);
+    const handleScroll = () => setScrollTop(element.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(element);
+    setViewportHeight(element.clientHeight);
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, [enabled, scrollElement]);
+
+  // With estimated heights, keep a running offset for every row so the
+  // visible range can be found with a binary search.
+  const offsets = useMemo(() => {
+    if (!enabled || rowHeight !== undefined) {
+      return null;
+    }
+    const result = new Float64Array(keys.length + 1);
+    for (let index = 0; index < keys.length; index++) {
+      const height = measuredHeights.get(keys[index]) ?? estimatedRowHeight;
+      result[index + 1] = result[index] + height;
+    }
+    return result;
+  }, [enabled, keys, rowHeight, estimatedRowHeight, measuredHeights]);
+
+  const measureRow = useCallback(
+    (key: React.Key) => (element: HTMLElement | null) => {
+      if (!element || rowHeight !== undefined) {
+        return;
+      }
+      const height = element.getBoundingClientRect().height;
+      if (height > 0) {
+        setMeasuredHeights((current) =>
+          current.get(key) === height ? current : new Map(current).set(key, height)
+        );
+      }
+    },
+    [rowHeight]
+  );
+
+  if (!enabled) {
+    // Without virtualization every row is in the DOM and scrolls into view on focus.
+    const scrollToIndex = () => undefined;
+    return { scrollRef: setScrollElement, startIndex: 0, endIndex: keys.length, paddingTop: 0, paddingBottom: 0, measureRow, scrollToIndex };
+  }
+
+  const count = keys.length;
+  const offsetOf = (index: number) => (offsets ? offsets[index] : index * (rowHeight ?? 0));
+  const totalHeight = offsetOf(count);
+
+  // Find the first row whose bottom edge is below the top of the viewport.
+  let firstVisible: number;
+  if (offsets) {
+    let low = 0;
+    let high = count;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (offsets[middle + 1] <= scrollTop) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    firstVisible = low;
+  } else {
+    firstVisible = Math.floor(scrollTop / (rowHeight ?? estimatedRowHeight));
+  }
+
+  // Walk forward until the viewport is filled.
+  let lastVisible = firstVisible;
+  while (lastVisible < count && offsetOf(lastVisible) < scrollTop + viewportHeight) {
+    lastVisible++;
+  }
+
+  const startIndex = Math.max(0, firstVisible - overscan);
+  const endIndex = Math.min(count, lastVisible + overscan);
+
+  // Scroll just enough to bring a row fully into view below the sticky header,
+  // so it gets rendered (e.g. before moving keyboard focus to it).
+  const scrollToIndex = (index: number) => {
+    const element = scrollElement;
+    if (!element) {
+      return;
+    }
+    const headerHeight = element.querySelector('thead')?.getBoundingClientRect().height ?? 0;
+    const top = offsetOf(index);
+    const bottom = offsetOf(Math.min(count, index + 1));
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (headerHeight + bottom > element.scrollTop + element.clientHeight) {
+      element.scrollTop = headerHeight + bottom - element.clientHeight;
+    }
+  };
+
+  return {
+    scrollRef: setScrollElement,
+    startIndex,
+    endIndex,
+    paddingTop: offsetOf(startIndex),
+    paddingBottom: totalHeight - offsetOf(endIndex),
+    measureRow,
+    scrollToIndex,
+  };
+};
@@ -1,6 +1,10 @@
 
+import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react';
-import { DataTable, Column } from './datatable.tsx'; // Corrected import to include .tsx extension
+import { Button } from '@/components/ui/button';
+import { DataTable, Column, ColumnState } from './datatable.tsx'; // Corrected import to include .tsx extension
+import { createMemoryFetcher } from './datatable-server.ts';
+import { createMemoryStorage, createUrlStorage } from './datatable-persistence.ts';
 
 // Sample Data and Columns for the stories.
 interface User {
@@ -19,8 +23,8 @@ const sampleData: User[] = [
 
 const sampleColumns: Column<User>[] = [
   { key: 'name', header: 'Name' },
-  { key: 'age', header: 'Age' },
-  { key: 'city', header: 'City' },
+  { key: 'age', header: 'Age', sortType: 'number' },
+  { key: 'city', header: 'City', filterType: 'enum' },
 ];
 
 // This is the metadata for your component.
@@ -66,6 +70,46 @@ export const EmptyState: Story = {
   },
 };
 
+/**
+ * A story demonstrating a custom empty state with a call to action.
+ */
+export const CustomEmptyState: Story = {
+  args: {
+    data: [],
+    columns: sampleColumns,
+    renderEmpty: () => (
+      <div className="space-y-2">
+        <p className="font-semibold">No users yet</p>
+        <Button size="sm">Invite a user</Button>
+      </div>
+    ),
+  },
+};
+
+/**
+ * A story demonstrating the error state with a retry action.
+ */
+export const ErrorState: Story = {
+  args: {
+    data: [],
+    columns: sampleColumns,
+    error: new Error('The server responded with 503 Service Unavailable.'),
+    onRetry: () => alert('Retrying'),
+  },
+};
+
+/**
+ * A story demonstrating the state shown when the filters hide every row.
+ */
+export const NoResults: Story = {
+  args: {
+    data: sampleData,
+    columns: sampleColumns,
+    filterable: true,
+    defaultFilters: { search: 'nobody', columns: {} },
+  },
+};
+
 /**
  * A story demonstrating the DataTable with row selection enabled.
  */
@@ -76,3 +120,593 @@ export const SelectableRows: Story = {
     selectable: true,
   },
 };
+
+// A larger dataset served through a fake fetcher, simulating an API.
+const cities = ['New York', 'London', 'Paris', 'Sydney', 'Tokyo', 'Berlin'];
+const largeData: User[] = Array.from({ length: 250 }, (_, index) => ({
+  id: index + 1,
+  name: `User ${index + 1}`,
+  age: 20 + ((index * 7) % 50),
+  city: cities[index % cities.length],
+}));
+
+/**
+ * A story demonstrating server-side mode. Sorting and paging are delegated to
+ * an in-memory fetcher with simulated network latency.
+ */
+export const ServerSide: Story = {
+  args: {
+    columns: sampleColumns,
+    fetchRows: createMemoryFetcher(largeData, { latency: 400, columns: sampleColumns }),
+    filterable: true,
+  },
+};
+
+// A fetcher whose every other request fails.
+let requestCount = 0;
+const flakyFetcher = createMemoryFetcher(largeData, { latency: 400, columns: sampleColumns });
+
+/**
+ * A story demonstrating a failing server: every other request is rejected,
+ * and Retry reloads the page.
+ */
+export const ServerError: Story = {
+  args: {
+    columns: sampleColumns,
+    fetchRows: (query) => {
+      requestCount++;
+      return requestCount % 2 === 1 ? Promise.reject(new Error('Network request failed.')) : flakyFetcher(query);
+    },
+  },
+};
+
+/**
+ * A story demonstrating client-side pagination with selection across pages.
+ */
+export const Paginated: Story = {
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    paginated: true,
+    selectable: true,
+    defaultPageSize: 10,
+  },
+};
+
+// A log-sized dataset for the virtualization story.
+const hugeData: User[] = Array.from({ length: 100000 }, (_, index) => ({
+  id: index + 1,
+  name: `User ${index + 1}`,
+  age: 20 + ((index * 7) % 50),
+  city: cities[index % cities.length],
+}));
+
+/**
+ * A story demonstrating row virtualization over 100,000 rows. Only the rows
+ * in view are rendered, and the header stays pinned while scrolling.
+ */
+export const Virtualized: Story = {
+  args: {
+    data: hugeData,
+    columns: sampleColumns,
+    selectable: true,
+    virtualized: true,
+    height: 480,
+    rowHeight: 57,
+    getRowId: (row) => (row as User).id,
+  },
+};
+
+// Product data with nested objects and dates, for the rich columns story.
+interface Product {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  supplier: { name: string; country: string };
+  updatedAt: string;
+}
+
+const products: Product[] = [
+  { id: 'p-1', name: 'Desk lamp', price: 39.9, stock: 120, supplier: { name: 'Lumen Co', country: 'Sweden' }, updatedAt: '2024-03-02T09:30:00Z' },
+  { id: 'p-2', name: 'Office chair', price: 249, stock: 8, supplier: { name: 'SitWell', country: 'Germany' }, updatedAt: '2024-02-14T16:05:00Z' },
+  { id: 'p-3', name: 'Standing desk', price: 599.5, stock: 0, supplier: { name: 'Lift Ltd', country: 'United Kingdom' }, updatedAt: '2024-01-28T11:45:00Z' },
+  { id: 'p-4', name: 'Monitor arm', price: 89, stock: 42, supplier: { name: 'Lumen Co', country: 'Sweden' }, updatedAt: '2024-03-10T08:00:00Z' },
+];
+
+const productColumns: Column<Product>[] = [
+  { key: 'name', header: 'Product', className: 'font-medium' },
+  {
+    key: 'supplier',
+    header: 'Supplier',
+    accessor: (product) => product.supplier.name,
+    cell: ({ formatted, row }) => (
+      <div>
+        <div>{formatted}</div>
+        <div className="text-xs text-gray-500">{row.supplier.country}</div>
+      </div>
+    ),
+  },
+  {
+    key: 'price',
+    header: 'Price',
+    sortType: 'number',
+    align: 'right',
+    format: { type: 'currency', currency: 'USD', locale: 'en-US' },
+  },
+  {
+    key: 'stock',
+    header: <span title="Units in the warehouse">Stock</span>,
+    exportHeader: 'Stock',
+    align: 'center',
+    sortType: 'number',
+    width: 120,
+    cell: ({ value }) => {
+      const stock = value as number;
+      const badgeClasses = stock === 0 ? 'bg-red-100 text-red-800' : stock < 10 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800';
+      return <span className={`rounded-full px-2 py-1 text-xs font-semibold ${badgeClasses}`}>{stock === 0 ? 'Out of stock' : stock}</span>;
+    },
+  },
+  { key: 'updatedAt', header: 'Last updated', format: { type: 'datetime', locale: 'en-US' }, sortType: 'date' },
+  {
+    key: 'actions',
+    // A column without data: the key isn't a product field, so it takes an accessor.
+    accessor: () => null,
+    header: <span className="sr-only">Actions</span>,
+    align: 'right',
+    sortable: false,
+    filterType: false,
+    searchable: false,
+    exportable: false,
+    cell: ({ row }) => (
+      <Button variant="outline" size="sm" onClick={(event) => { event.stopPropagation(); alert(`Edit ${row.name}`); }}>
+        Edit
+      </Button>
+    ),
+  },
+];
+
+/**
+ * A story demonstrating rich column definitions: accessors for nested values,
+ * Intl currency and date formatting, badges and action buttons.
+ */
+export const RichColumns: Story = {
+  args: {
+    data: products,
+    columns: productColumns,
+  },
+};
+
+/**
+ * A story demonstrating multi-column sorting. The table starts sorted by city,
+ * then by age descending; shift-click a header to add or change a sort level.
+ */
+export const MultiColumnSort: Story = {
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    paginated: true,
+    defaultSort: [
+      { key: 'city', direction: 'asc' },
+      { key: 'age', direction: 'desc' },
+    ],
+  },
+};
+
+/**
+ * A story demonstrating the filter toolbar: a global search box, per-column
+ * filters chosen by column type and chips for the active filters.
+ */
+export const Filterable: Story = {
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    paginated: true,
+    filterable: true,
+  },
+};
+
+/**
+ * A story demonstrating date range and numeric filters on product data.
+ */
+export const FilterableProducts: Story = {
+  args: {
+    data: products,
+    columns: productColumns,
+    filterable: true,
+    defaultFilters: {
+      search: '',
+      columns: { price: { type: 'range', max: 300 } },
+    },
+  },
+};
+
+/**
+ * A story demonstrating single-row selection.
+ */
+export const SingleSelection: Story = {
+  args: {
+    data: sampleData,
+    columns: sampleColumns,
+    selectable: true,
+    selectionMode: 'single',
+  },
+};
+
+/**
+ * A story demonstrating a pre-selected set of rows. Shift-click a row to
+ * select the range from the last clicked row.
+ */
+export const PreselectedRows: Story = {
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    paginated: true,
+    selectable: true,
+    defaultSelectedRowIds: [2, 3, 5],
+  },
+};
+
+// Columns for the editing story. Names are validated asynchronously, as if
+// checked for uniqueness on a server.
+const editableColumns: Column<User>[] = [
+  {
+    key: 'name',
+    header: 'Name',
+    editable: true,
+    validate: (value) =>
+      new Promise((resolve) => {
+        setTimeout(() => {
+          const name = String(value).trim();
+          resolve(name === '' ? 'Name is required.' : name.length < 3 ? 'Name must be at least 3 characters.' : null);
+        }, 300);
+      }),
+  },
+  {
+    key: 'age',
+    header: 'Age',
+    sortType: 'number',
+    editable: true,
+    validate: (value) => (value === null || (value as number) < 0 || (value as number) > 130 ? 'Enter an age between 0 and 130.' : null),
+  },
+  { key: 'city', header: 'City', editable: true },
+];
+
+// Keeps the edited rows in state. Saving fails for Paris, to show the rollback.
+const EditableTable = () => {
+  const [rows, setRows] = useState(sampleData);
+  return (
+    <DataTable
+      data={rows}
+      columns={editableColumns}
+      onCellEdit={(rowId, key, value) =>
+        new Promise<void>((resolve, reject) => {
+          setTimeout(() => {
+            if (key === 'city' && value === 'Paris') {
+              reject(new Error('Paris is not available.'));
+              return;
+            }
+            setRows((current) => current.map((row) => (row.id === rowId ? { ...row, [key]: value } : row)));
+            resolve();
+          }, 500);
+        })
+      }
+    />
+  );
+};
+
+/**
+ * A story demonstrating inline editing. Double-click a cell to edit it; Enter
+ * commits, Escape cancels and Tab moves to the next editable cell. Saving
+ * "Paris" as a city is rejected and rolled back.
+ */
+export const InlineEditing: Story = {
+  render: () => <EditableTable />,
+};
+
+/**
+ * A story demonstrating export. The Export menu saves the filtered, sorted
+ * rows as CSV, TSV or JSON, with formatted or raw values, optionally only
+ * the selected rows. The actions column is left out of the file.
+ */
+export const Exportable: Story = {
+  args: {
+    data: products,
+    columns: productColumns,
+    filterable: true,
+    selectable: true,
+    exportable: true,
+    exportFileName: 'products',
+  },
+};
+
+// The product columns with the name pinned left and the actions pinned right.
+const pinnedProductColumns: Column<Product>[] = productColumns.map((column) => {
+  if (column.key === 'name') {
+    return { ...column, pinned: 'left', hideable: false, width: 180 };
+  }
+  if (column.key === 'actions') {
+    return { ...column, pinned: 'right', resizable: false };
+  }
+  return { ...column, width: column.width ?? 220 };
+});
+
+// A table whose column layout is held by the parent, as it would be when
+// saved per user. The current layout is shown below the table.
+const ColumnLayoutTable = () => {
+  const [columnState, setColumnState] = useState<ColumnState>({
+    order: [],
+    widths: {},
+    hidden: ['updatedAt'],
+    pinned: {},
+  });
+  return (
+    <div className="max-w-2xl space-y-4">
+      <DataTable
+        data={products}
+        columns={pinnedProductColumns}
+        selectable
+        columnMenu
+        resizableColumns
+        reorderableColumns
+        columnState={columnState}
+        onColumnStateChange={setColumnState}
+      />
+      <pre className="rounded bg-gray-100 p-2 text-xs dark:bg-gray-800">{JSON.stringify(columnState, null, 2)}</pre>
+    </div>
+  );
+};
+
+/**
+ * A story demonstrating column layout. Drag a header's right edge to resize
+ * it, drag a header to reorder, and use the Columns menu to show, hide or pin
+ * columns. Pinned columns stay in view while scrolling sideways.
+ */
+export const ColumnLayout: Story = {
+  render: () => <ColumnLayoutTable />,
+};
+
+// Columns for the grouping stories, with an age band to group by and
+// aggregates for the group headers and footer.
+const groupedColumns: Column<User>[] = [
+  { key: 'name', header: 'Name', aggregate: 'count' },
+  { key: 'age', header: 'Age', sortType: 'number', align: 'right', aggregate: 'avg', format: { type: 'number', options: { maximumFractionDigits: 1 } } },
+  { key: 'city', header: 'City', filterType: 'enum' },
+  {
+    key: 'ageBand',
+    header: 'Age band',
+    accessor: (user) => `${Math.floor(user.age / 10) * 10}s`,
+    aggregate: (values) => `${new Set(values).size} bands`,
+  },
+];
+
+/**
+ * A story demonstrating rows grouped by city, with the average age in each
+ * group header and totals in the footer. Click a group to collapse it, or
+ * tick its checkbox to select every row in it.
+ */
+export const GroupedRows: Story = {
+  args: {
+    data: largeData,
+    columns: groupedColumns,
+    groupBy: 'city',
+    aggregateFooter: true,
+    paginated: true,
+    selectable: true,
+    defaultPageSize: 25,
+  },
+};
+
+/**
+ * A story demonstrating nested groups: by city, then by age band.
+ */
+export const NestedGroups: Story = {
+  args: {
+    data: largeData,
+    columns: groupedColumns,
+    groupBy: ['city', 'ageBand'],
+    aggregateFooter: true,
+    filterable: true,
+  },
+};
+
+/**
+ * A story demonstrating detail panels: the toggle column opens a panel below
+ * each product with its supplier and stock history.
+ */
+export const RowDetails: Story = {
+  args: {
+    data: products,
+    columns: productColumns,
+    selectable: true,
+    renderRowDetail: (row) => {
+      const product = row as Product;
+      return (
+        <dl className="grid grid-cols-2 gap-2 text-sm">
+          <dt className="font-semibold">Supplier</dt>
+          <dd>{product.supplier.name}, {product.supplier.country}</dd>
+          <dt className="font-semibold">Units in stock</dt>
+          <dd>{product.stock}</dd>
+        </dl>
+      );
+    },
+  },
+};
+
+// An org chart, for the tree data story.
+interface Employee {
+  id: string;
+  name: string;
+  title: string;
+  salary: number;
+  reports?: Employee[];
+}
+
+const orgChart: Employee[] = [
+  {
+    id: 'e-1',
+    name: 'Maria Garcia',
+    title: 'CEO',
+    salary: 240000,
+    reports: [
+      {
+        id: 'e-2',
+        name: 'Tom Baker',
+        title: 'VP Engineering',
+        salary: 190000,
+        reports: [
+          { id: 'e-4', name: 'Ana Silva', title: 'Engineer', salary: 120000 },
+          { id: 'e-5', name: 'Ken Ito', title: 'Engineer', salary: 115000 },
+        ],
+      },
+      {
+        id: 'e-3',
+        name: 'Lena Fischer',
+        title: 'VP Sales',
+        salary: 175000,
+        reports: [{ id: 'e-6', name: 'Omar Haddad', title: 'Account Executive', salary: 90000 }],
+      },
+    ],
+  },
+];
+
+const employeeColumns: Column<Employee>[] = [
+  { key: 'name', header: 'Name' },
+  { key: 'title', header: 'Title', filterType: 'enum' },
+  { key: 'salary', header: 'Salary', sortType: 'number', align: 'right', format: { type: 'currency', currency: 'USD', locale: 'en-US' } },
+];
+
+/**
+ * A story demonstrating tree data: each employee's reports are nested under
+ * them. Filtering keeps the parents of matching rows.
+ */
+export const TreeRows: Story = {
+  args: {
+    data: orgChart,
+    columns: employeeColumns,
+    getRowId: (row) => (row as Employee).id,
+    getSubRows: (row) => (row as Employee).reports,
+    defaultExpandedRowIds: ['e-1'],
+    selectable: true,
+    filterable: true,
+  },
+};
+
+/**
+ * A story demonstrating saved state: sort, filter, resize or hide columns and
+ * change pages, then reload. The state is kept in localStorage.
+ */
+export const PersistedState: Story = {
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    stateKey: 'storybook-datatable',
+    filterable: true,
+    paginated: true,
+    resizableColumns: true,
+    columnMenu: true,
+  },
+};
+
+/**
+ * A story demonstrating state kept in the URL's query string, so the view
+ * can be bookmarked or shared.
+ */
+export const StateInUrl: Story = {
+  args: {
+    ...PersistedState.args,
+    stateKey: 'table',
+    stateStorage: createUrlStorage(),
+  },
+};
+
+// Saved table state from before the format had a version, and from a
+// newer version than this one.
+const olderSavedState = createMemoryStorage({
+  unversioned: JSON.stringify({ sort: { key: 'age', direction: 'desc' }, page: 1, pageSize: 10 }),
+});
+const newerSavedState = createMemoryStorage({
+  newer: JSON.stringify({ version: 99, sort: [{ key: 'age', direction: 'desc' }], page: 1 }),
+});
+
+/**
+ * A story demonstrating how older saved state is upgraded. The store starts
+ * with state saved without a version, sorting a single column as an object:
+ * it loads sorted by age, descending, on the second page. The second table's
+ * state was saved by a newer version, so it is ignored and the table starts
+ * from its defaults.
+ */
+export const SavedStateMigration: Story = {
+  render: (args) => (
+    <div className="space-y-4">
+      <DataTable {...args} stateKey="unversioned" stateStorage={olderSavedState} />
+      <DataTable {...args} stateKey="newer" stateStorage={newerSavedState} />
+    </div>
+  ),
+  args: {
+    data: largeData,
+    columns: sampleColumns,
+    paginated: true,
+  },
+};
+
+// Product columns marked for the card layout: the name is the title, the
+// supplier and update time are left out.
+const responsiveProductColumns: Column<Product>[] = productColumns.map((column) => {
+  if (column.key === 'supplier' || column.key === 'updatedAt') {
+    return { ...column, responsive: 'hidden' };
+  }
+  return column;
+});
+
+/**
+ * A story demonstrating the card layout: the table is in a narrow container,
+ * so each row is a card and a dropdown offers the sort. Widen the container
+ * past 640 pixels to get the table back.
+ */
+export const ResponsiveCards: Story = {
+  args: {
+    data: products,
+    columns: responsiveProductColumns,
+    responsive: true,
+    selectable: true,
+    filterable: true,
+  },
+  render: (args) => (
+    <div className="max-w-sm resize-x overflow-auto">
+      <DataTable {...args} />
+    </div>
+  ),
+};
+
+/**
+ * A story demonstrating virtualization across the card breakpoint. Switch
+ * the width back and forth and scroll: the table and the card list each
+ * render only the rows in view.
+ */
+export const VirtualizedResponsive: Story = {
+  args: {
+    data: hugeData,
+    columns: sampleColumns,
+    virtualized: true,
+    responsive: true,
+    height: 480,
+    getRowId: (row) => (row as User).id,
+  },
+  render: (args) => {
+    const ResizableTable = () => {
+      const [isNarrow, setIsNarrow] = useState(false);
+      return (
+        <div>
+          <Button variant="outline" size="sm" className="mb-2" onClick={() => setIsNarrow(!isNarrow)}>
+            {isNarrow ? 'Widen to 800px' : 'Narrow to 400px'}
+          </Button>
+          <div style={{ width: isNarrow ? 400 : 800 }}>
+            <DataTable {...args} />
+          </div>
+        </div>
+      );
+    };
+    return <ResizableTable />;
+  },
+};
@@ -1,98 +1,884 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, ChevronsDownUpIcon, ChevronsUpDownIcon } from 'lucide-react';
 import { twMerge } from 'tailwind-merge';
+import { Alert, AlertActions, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useControllableState } from '@/lib/hooks';
+import {
+  Column,
+  alignClasses,
+  createFormatter,
+  getColumnLabel,
+  getColumnValue,
+  headerAlignClasses,
+  isCellEditable,
+  toFilterColumns,
+  toSortColumns,
+} from './datatable-columns.ts';
+import { FilterState, emptyFilterState, filterRows, hasActiveFilters } from './datatable-filters.ts';
+import { SortOptions, SortState, sortRows, toggleSort } from './datatable-sort.ts';
+import { FetchRows, useServerRows } from './datatable-server.ts';
+import { RowId, SelectionMode, useRowSelection } from './datatable-selection.ts';
+import { CellEditHandler, useCellEditing } from './datatable-editing.ts';
+import { CellEditor } from './datatable-cell-editor.tsx';
+import { GridCell, getNextCell } from './datatable-keyboard.ts';
+import {
+  RowGroup,
+  TableItem,
+  aggregateValues,
+  flattenGroups,
+  getGroupedSort,
+  groupRows,
+  paginateItems,
+} from './datatable-grouping.ts';
+import { GetSubRows, buildRowTree, expandRowItems, flattenTree } from './datatable-tree.ts';
+import { ExportFile, ExportFormat, ExportValues, createExportFile, downloadExportFile } from './datatable-export.ts';
+import { DataTableExportMenu } from './datatable-export-menu.tsx';
+import {
+  ColumnPin,
+  ColumnState,
+  emptyColumnState,
+  getColumnPin,
+  getPinnedStyles,
+  moveColumn,
+  resolveColumns,
+  setColumnWidth,
+  useColumnWidths,
+} from './datatable-layout.ts';
+import { DataTableColumnMenu } from './datatable-column-menu.tsx';
+import { TableStateStorage, loadTableState, localTableStorage, useSaveTableState } from './datatable-persistence.ts';
+import { DataTablePagination } from './datatable-pagination.tsx';
+import { defaultCardBreakpoint, getCardColumns, useCompactLayout } from './datatable-responsive.ts';
+import { DataTableSortSelect } from './datatable-sort-select.tsx';
+import { DataTableToolbar } from './datatable-toolbar.tsx';
+import { useVirtualRows } from './datatable-virtual.ts';
 
-// Define the type for a single column. The <T> is a generic type,
-// allowing the component to work with any data structure.
-// key: The key of the data object to display in this column.
-// header: The human-readable header text for the column.
-export interface Column<T> {
-  key: keyof T;
-  header: string;
-}
+export type { Column, CellContext, ColumnFormat, ResponsivePriority } from './datatable-columns.ts';
+export type { SortConfig, SortOptions, SortState, SortType } from './datatable-sort.ts';
+export type { ColumnFilterValue, FilterState, FilterType } from './datatable-filters.ts';
+export type { RowId, SelectionMode } from './datatable-selection.ts';
+export type { CellEditHandler, CellEditorProps, CellValidationResult } from './datatable-editing.ts';
+export type { ExportFile, ExportFormat, ExportOptions, ExportValues } from './datatable-export.ts';
+export type { ColumnPin, ColumnState } from './datatable-layout.ts';
+export type { ColumnAggregate } from './datatable-grouping.ts';
+export type { GetSubRows } from './datatable-tree.ts';
+export type { PersistedTableState, TableStateStorage } from './datatable-persistence.ts';
 
 // Define the component's props.
+// data: The rows to display when the table manages data in memory.
+// loading: Shows skeleton rows while there is no data yet, or a progress bar
+//   over the current rows while they are refreshed. Server-side mode sets it
+//   while a page is loading.
+// error: Shows an error above the table, e.g. the error a request failed
+//   with. Its message is shown when it is an Error or a string. In
+//   server-side mode, failed requests are shown without passing it.
+// onRetry: Adds a Retry button to the error. In server-side mode the button
+//   always reloads the page, then calls onRetry.
+// renderEmpty: Renders the body of a table without data.
+// renderNoResults: Renders the body when the filters hide every row. It
+//   receives a function that clears the filters.
+// selectable: Adds a checkbox column for row selection. Shift-click selects a range.
+// selectionMode: Whether one or many rows can be selected. Defaults to 'multiple'.
+// selectedRowIds: The ids of the selected rows. Pass it with onSelectionChange
+//   to control selection, or use defaultSelectedRowIds.
+// onSelectionChange: Called with the selected ids and the rows the table has
+//   seen for them. In server-side mode, rows on pages not yet loaded are not included.
+// onRowSelect: Called with the selected rows. Prefer onSelectionChange.
+// fetchRows: Switches the table to server-side mode. The table requests each
+//   page with the current sort, filters and page, and ignores `data`.
+// filterable: Shows the toolbar with a global search box and per-column filters.
+// filters: The search string and column filters. Pass it with onFiltersChange
+//   to control filtering, or use defaultFilters. In server-side mode the
+//   filters are forwarded to fetchRows.
+// paginated: Splits in-memory data into pages. Server-side mode is always paginated.
+// page / pageSize: The zero-based page and rows per page. Pass them to control
+//   pagination, or use defaultPage / defaultPageSize to let the table manage it.
+// onPageChange: Called with the new page and page size.
+// getRowId: Returns a stable, unique id for a row. Defaults to the row's `id`
+//   field, falling back to its index. Keep the function stable between renders.
+// virtualized: Renders only the rows visible in a scrollable body of `height` pixels.
+// rowHeight: A fixed row height for virtualization. When omitted, rows are
+//   measured as they render, starting from estimatedRowHeight.
+// overscan: The number of rows rendered beyond each edge of the viewport.
+// sort: The sorted columns in priority order. Pass it with onSortChange to
+//   control sorting, e.g. to keep it in the URL, or use defaultSort.
+//   Shift-click a header to sort by several columns.
+// sortOptions: The collation locale and where empty values are placed.
+// onCellEdit: Called when an edit to an editable column is committed. The new
+//   value is shown until a returned promise settles, and rolled back if it rejects.
+// exportable: Adds an Export menu that saves the rows in view, after sorting
+//   and filtering, as CSV, TSV or JSON. Pass a list to limit the formats.
+//   In server-side mode only the loaded page is exported.
+// exportFileName: The downloaded file's name, without an extension.
+// onExport: Receives the exported file instead of it being downloaded,
+//   e.g. to upload it or copy it to the clipboard.
+// columnState: The column order, widths, hidden columns and pinning. Pass it
+//   with onColumnStateChange to control the layout, e.g. to save it per user,
+//   or use defaultColumnState.
+// resizableColumns: Lets users drag the edge of a header to resize its column.
+//   Double-click the edge to reset the width.
+// reorderableColumns: Lets users drag headers to reorder columns.
+// columnMenu: Adds a Columns menu to show, hide and pin columns.
+// groupBy: Groups rows by a field, or by several fields nested in order,
+//   under collapsible headers showing the row count and column aggregates.
+//   Groups are ordered by their field, following its sort direction, and
+//   group headers count towards the page size. In server-side mode only the
+//   loaded page is grouped.
+// aggregateFooter: Adds a footer row with each column's aggregate over all rows in view.
+// renderRowDetail: Renders a panel under a row, opened from a toggle cell at
+//   the start of each row.
+// getSubRows: Returns a row's child rows, showing `data` as a tree. Filters
+//   keep the parents of matching rows and sorting applies within each level.
+//   Selecting a parent selects its children. Keep the function stable between
+//   renders; without `id` fields, rows are indexed depth first.
+// expandedRowIds: The ids of tree rows whose children are shown. Pass it with
+//   onExpandedRowIdsChange to control expansion, or use defaultExpandedRowIds.
+// stateKey: Saves the sort, filters, column layout, page and page size under
+//   this key and restores them on the next visit. Saved state replaces the
+//   default* props; controlled props still win. Corrupt or unknown saved
+//   state is ignored.
+// stateStorage: Where the state is saved. Defaults to localStorage; the
+//   persistence module also has sessionStorage, URL and in-memory adapters.
+// responsive: Shows the rows as a list of cards when the table's container
+//   is narrower than 640 pixels, or the given width. Columns choose where
+//   they show with `responsive`, and a dropdown replaces the sortable headers.
 export interface DataTableProps<T> {
-  data: T[];
+  data?: T[];
   columns: Column<T>[];
   loading?: boolean;
+  error?: unknown;
+  onRetry?: () => void;
+  renderEmpty?: () => React.ReactNode;
+  renderNoResults?: (clearFilters: () => void) => React.ReactNode;
   selectable?: boolean;
+  selectionMode?: SelectionMode;
+  selectedRowIds?: RowId[];
+  defaultSelectedRowIds?: RowId[];
+  onSelectionChange?: (selectedRowIds: RowId[], selectedRows: T[]) => void;
   onRowSelect?: (selectedRows: T[]) => void;
+  fetchRows?: FetchRows<T>;
+  filterable?: boolean;
+  filters?: FilterState;
+  defaultFilters?: FilterState;
+  onFiltersChange?: (filters: FilterState) => void;
+  paginated?: boolean;
+  page?: number;
+  defaultPage?: number;
+  pageSize?: number;
+  defaultPageSize?: number;
+  pageSizeOptions?: number[];
+  onPageChange?: (page: number, pageSize: number) => void;
+  getRowId?: (row: T, index: number) => RowId;
+  virtualized?: boolean;
+  height?: number;
+  rowHeight?: number;
+  estimatedRowHeight?: number;
+  overscan?: number;
+  sort?: SortState;
+  defaultSort?: SortState;
+  onSortChange?: (sort: SortState) => void;
+  sortOptions?: SortOptions;
+  onCellEdit?: CellEditHandler<T>;
+  exportable?: boolean | ExportFormat[];
+  exportFileName?: string;
+  onExport?: (file: ExportFile) => void;
+  columnState?: ColumnState;
+  defaultColumnState?: ColumnState;
+  onColumnStateChange?: (columnState: ColumnState) => void;
+  resizableColumns?: boolean;
+  reorderableColumns?: boolean;
+  columnMenu?: boolean;
+  groupBy?: string | string[];
+  aggregateFooter?: boolean;
+  renderRowDetail?: (row: T) => React.ReactNode;
+  getSubRows?: GetSubRows<T>;
+  expandedRowIds?: RowId[];
+  defaultExpandedRowIds?: RowId[];
+  onExpandedRowIdsChange?: (expandedRowIds: RowId[]) => void;
+  stateKey?: string;
+  stateStorage?: TableStateStorage;
+  responsive?: boolean | number;
 }
 
+const defaultPageSizeOptions = [10, 25, 50, 100];
+const emptySort: SortState = [];
+const emptySelection: RowId[] = [];
+const defaultSortOptions: SortOptions = {};
+const allExportFormats: ExportFormat[] = ['csv', 'tsv', 'json'];
+// The keys used to measure and pin the checkbox and detail toggle columns.
+const selectionColumnKey = '__selection';
+const expanderColumnKey = '__expander';
+const noGroups: string[] = [];
+// The number of placeholder rows shown before the first rows load.
+const skeletonRowCount = 5;
+
+// Reads a message to show from an error of any type.
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return typeof error === 'string' && error ? error : 'Something went wrong while loading the rows.';
+};
+
+// Use the row's own `id` field when it has one.
+const defaultGetRowId = <T,>(row: T, index: number): RowId => {
+  const id = (row as { id?: unknown }).id;
+  return typeof id === 'string' || typeof id === 'number' ? id : index;
+};
+
+// A checkbox that can also show the indeterminate state.
+const SelectionCheckbox = ({
+  indeterminate = false,
+  ...props
+}: React.InputHTMLAttributes<HTMLInputElement> & { indeterminate?: boolean }): JSX.Element => {
+  const ref = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (ref.current) {
+      ref.current.indeterminate = indeterminate;
+    }
+  }, [indeterminate]);
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      aria-checked={indeterminate ? 'mixed' : props.checked}
+      className="form-checkbox rounded text-blue-500"
+      {...props}
+    />
+  );
+};
+
 /**
  * A reusable DataTable component with sorting, selection, and state handling.
  * @param {DataTableProps<T>} props - The props for the component.
  * @returns {JSX.Element} The rendered DataTable component.
  */
 export const DataTable = <T,>({
-  data,
+  data = [],
   columns,
   loading = false,
+  error,
+  onRetry,
+  renderEmpty,
+  renderNoResults,
   selectable = false,
+  selectionMode = 'multiple',
+  selectedRowIds,
+  defaultSelectedRowIds = emptySelection,
+  onSelectionChange,
   onRowSelect,
+  fetchRows,
+  filterable = false,
+  filters: filtersProp,
+  defaultFilters = emptyFilterState,
+  onFiltersChange,
+  paginated = false,
+  page: pageProp,
+  defaultPage = 0,
+  pageSize: pageSizeProp,
+  defaultPageSize = 10,
+  pageSizeOptions = defaultPageSizeOptions,
+  onPageChange,
+  getRowId = defaultGetRowId,
+  virtualized = false,
+  height = 400,
+  rowHeight,
+  estimatedRowHeight,
+  overscan,
+  sort: sortProp,
+  defaultSort = emptySort,
+  onSortChange,
+  sortOptions = defaultSortOptions,
+  onCellEdit,
+  exportable = false,
+  exportFileName = 'export',
+  onExport,
+  columnState: columnStateProp,
+  defaultColumnState = emptyColumnState,
+  onColumnStateChange,
+  resizableColumns = false,
+  reorderableColumns = false,
+  columnMenu = false,
+  groupBy,
+  aggregateFooter = false,
+  renderRowDetail,
+  getSubRows,
+  expandedRowIds,
+  defaultExpandedRowIds = emptySelection,
+  onExpandedRowIdsChange,
+  stateKey,
+  stateStorage = localTableStorage,
+  responsive = false,
 }: DataTableProps<T>): JSX.Element => {
-  // Use state to track the selected rows.
-  const [selectedRows, setSelectedRows] = useState<T[]>([]);
-  // Use state to track the column being sorted and the direction.
-  const [sortConfig, setSortConfig] = useState<{ key: keyof T; direction: 'asc' | 'desc' } | null>(null);
-
-  // Function to handle row selection.
-  const handleRowClick = (row: T) => {
-    const isSelected = selectedRows.includes(row);
-    let newSelectedRows: T[];
-
-    if (isSelected) {
-      newSelectedRows = selectedRows.filter((r) => r !== row);
+  // Read the saved state once, to seed the uncontrolled state below.
+  const [savedState] = useState(() => (stateKey === undefined ? {} : loadTableState(stateStorage, stateKey)));
+  // Track the sorted columns and their directions, controlled or uncontrolled.
+  const [sort, setSort] = useControllableState(sortProp, savedState.sort ?? defaultSort, onSortChange);
+  // Track the search string and column filters, controlled or uncontrolled.
+  const [filters, setFilters] = useControllableState(filtersProp, savedState.filters ?? defaultFilters, onFiltersChange);
+  // Track the current page and page size, controlled or uncontrolled.
+  const [page, setPage] = useControllableState(pageProp, savedState.page ?? defaultPage);
+  const [pageSize, setPageSize] = useControllableState(pageSizeProp, savedState.pageSize ?? defaultPageSize);
+  // Track the column order, widths, visibility and pinning, controlled or uncontrolled.
+  const [columnState, setColumnState] = useControllableState(
+    columnStateProp,
+    savedState.columnState ?? defaultColumnState,
+    onColumnStateChange
+  );
+  // Save the state whenever it changes.
+  useSaveTableState(
+    stateKey,
+    stateStorage,
+    { sort, filters, columnState, page, pageSize },
+    { sort: defaultSort, filters: defaultFilters, columnState: defaultColumnState, page: defaultPage, pageSize: defaultPageSize }
+  );
+  const displayColumns = React.useMemo(() => resolveColumns(columns, columnState), [columns, columnState]);
+
+  const isServerSide = Boolean(fetchRows);
+  const isPaginated = paginated || isServerSide;
+  const server = useServerRows(fetchRows, { sort, filters, page, pageSize });
+
+  // Map every row to its id. The index passed to getRowId is the row's
+  // position in `data`, or its absolute position in server-side mode.
+  // Tree rows are numbered depth first.
+  // Rows are also remembered by id, so selection callbacks can report them.
+  const knownRows = useRef(new Map<RowId, T>());
+  const rowIdMap = React.useMemo(() => {
+    const map = new Map<T, RowId>();
+    const topRows = isServerSide ? server.rows : data;
+    const sourceRows = getSubRows ? flattenTree(topRows, getSubRows) : topRows;
+    const offset = isServerSide ? page * pageSize : 0;
+    if (!isServerSide) {
+      knownRows.current = new Map();
+    }
+    sourceRows.forEach((row, index) => {
+      const id = getRowId(row, offset + index);
+      map.set(row, id);
+      knownRows.current.set(id, row);
+    });
+    return map;
+  }, [isServerSide, server.rows, data, getSubRows, page, pageSize, getRowId]);
+
+  // Track the selected row ids, controlled or uncontrolled.
+  const selection = useRowSelection({
+    mode: selectionMode,
+    selectedRowIds,
+    defaultSelectedRowIds,
+    onChange: (ids) => {
+      const rows = ids.flatMap((id) => {
+        const row = knownRows.current.get(id);
+        return row === undefined ? [] : [row];
+      });
+      onSelectionChange?.(ids, rows);
+      onRowSelect?.(rows);
+    },
+  });
+
+  // Function to handle page and page size changes.
+  const changePage = (nextPage: number, nextPageSize: number) => {
+    setPage(nextPage);
+    setPageSize(nextPageSize);
+    onPageChange?.(nextPage, nextPageSize);
+  };
+
+  // Go back to the first page whenever the filters change.
+  const filtersKey = JSON.stringify(filters);
+  const previousFiltersKey = useRef(filtersKey);
+  useEffect(() => {
+    if (previousFiltersKey.current !== filtersKey) {
+      previousFiltersKey.current = filtersKey;
+      changePage(0, pageSize);
+    }
+  });
+
+  // Track the cell being edited and any pending edits.
+  const editing = useCellEditing(onCellEdit);
+
+  // Function to handle column sorting.
+  // Holding shift adds the column to the existing sort instead of replacing it.
+  const handleSort = (key: string, multi: boolean) => {
+    setSort(toggleSort(sort, key, multi));
+    changePage(0, pageSize);
+  };
+
+  // The grouped fields, kept stable when an equal array is passed each render.
+  const groupByKey = groupBy === undefined ? '' : JSON.stringify(groupBy);
+  const groupKeys = React.useMemo<string[]>(
+    () => (groupByKey === '' ? noGroups : [JSON.parse(groupByKey)].flat()),
+    [groupByKey]
+  );
+  const isGrouped = groupKeys.length > 0;
+  // Grouped and tree rows nest, so the table becomes a treegrid.
+  const isTreeGrid = isGrouped || Boolean(getSubRows);
+
+  // Filter, then sort the data based on the current configuration. Grouped
+  // fields are sorted first so each group's rows are together.
+  // In server-side mode the rows arrive already filtered and sorted.
+  const isFiltered = hasActiveFilters(filters);
+  const tree = React.useMemo(() => {
+    if (!getSubRows) {
+      return null;
+    }
+    if (isServerSide) {
+      return buildRowTree(server.rows, getSubRows, null, (rows) => rows);
+    }
+    const matches = isFiltered
+      ? new Set(filterRows(flattenTree(data, getSubRows), filters, toFilterColumns(columns)))
+      : null;
+    const groupedSort = getGroupedSort(sort, groupKeys);
+    return buildRowTree(data, getSubRows, matches, (rows) =>
+      sortRows(rows, groupedSort, toSortColumns(columns), sortOptions)
+    );
+  }, [getSubRows, isServerSide, server.rows, data, isFiltered, filters, sort, groupKeys, columns, sortOptions]);
+  const sortedData = React.useMemo(() => {
+    if (tree) {
+      return tree.rows;
+    }
+    if (isServerSide) {
+      return server.rows;
+    }
+    const filteredData = filterRows(data, filters, toFilterColumns(columns));
+    return sortRows(filteredData, getGroupedSort(sort, groupKeys), toSortColumns(columns), sortOptions);
+  }, [tree, isServerSide, server.rows, data, filters, sort, groupKeys, columns, sortOptions]);
+  // Every row in view, including tree rows under collapsed parents.
+  const viewRows = tree ? tree.allRows : sortedData;
+
+  // Track expanded tree rows and open detail panels by row id.
+  const [expandedIds, setExpandedIds] = useControllableState(
+    expandedRowIds,
+    defaultExpandedRowIds,
+    onExpandedRowIdsChange
+  );
+  const expandedSet = React.useMemo(() => new Set(expandedIds), [expandedIds]);
+  const [openDetails, setOpenDetails] = useState<Set<RowId>>(() => new Set());
+  const hasRowDetail = Boolean(renderRowDetail);
+  const toggleExpanded = (rowId: RowId) => {
+    setExpandedIds(expandedSet.has(rowId) ? expandedIds.filter((id) => id !== rowId) : [...expandedIds, rowId]);
+  };
+  // Expand-all opens every tree row that has children in view.
+  const parentRowIds = React.useMemo(
+    () => (tree ? tree.allRows.filter((row) => tree.children.has(row)).flatMap((row) => rowIdMap.get(row) ?? []) : []),
+    [tree, rowIdMap]
+  );
+  const isTreeExpanded = parentRowIds.length > 0 && parentRowIds.every((id) => expandedSet.has(id));
+  const toggleDetail = (rowId: RowId) => {
+    const next = new Set(openDetails);
+    if (!next.delete(rowId)) {
+      next.add(rowId);
+    }
+    setOpenDetails(next);
+  };
+
+  // Track collapsed groups by id, then list the group headers and rows in
+  // display order.
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(() => new Set());
+  const toggleGroup = (id: string) => {
+    const next = new Set(collapsedGroups);
+    if (!next.delete(id)) {
+      next.add(id);
+    }
+    setCollapsedGroups(next);
+  };
+  const items = React.useMemo<TableItem<T>[]>(() => {
+    if (!isGrouped) {
+      return sortedData.map((row) => ({ type: 'row', row, depth: 0 }));
+    }
+    const getGroupValue = (key: string, row: T) => {
+      const column = columns.find((c) => String(c.key) === key);
+      return column ? getColumnValue(column, row) : row[key as keyof T];
+    };
+    return flattenGroups(groupRows(sortedData, groupKeys, getGroupValue), collapsedGroups);
+  }, [isGrouped, sortedData, groupKeys, columns, collapsedGroups]);
+
+  // Insert open detail panels and the children of expanded tree rows. While
+  // filtering, every parent is expanded so the matches are visible.
+  const expandedItems = React.useMemo(() => {
+    if (!tree && !hasRowDetail) {
+      return items;
+    }
+    const isOpen = (ids: Set<RowId>) => (row: T) => {
+      const id = rowIdMap.get(row);
+      return id !== undefined && ids.has(id);
+    };
+    return expandRowItems(items, {
+      getChildren: (row) => tree?.children.get(row) ?? [],
+      isExpanded: isFiltered ? () => true : isOpen(expandedSet),
+      isDetailOpen: hasRowDetail ? isOpen(openDetails) : () => false,
+    });
+  }, [items, tree, hasRowDetail, rowIdMap, isFiltered, expandedSet, openDetails]);
+
+  // Function to list the choices for an enum filter: the column's own
+  // options, or the distinct values in the data.
+  const getFilterOptions = (column: Column<T>): string[] => {
+    if (column.filterOptions) {
+      return column.filterOptions;
+    }
+    const values = new Set<string>();
+    (getSubRows ? flattenTree(data, getSubRows) : data).forEach((row) => {
+      const value = getColumnValue(column, row);
+      if (value !== null && value !== undefined && value !== '') {
+        values.add(String(value));
+      }
+    });
+    return [...values].sort();
+  };
+
+  // Build each column's formatter once per column definition.
+  const formatters = React.useMemo(
+    () => new Map(columns.map((column) => [column, createFormatter(column.format)])),
+    [columns]
+  );
+
+  // Function to render a cell's content: the editor while the cell is being
+  // edited, otherwise the custom renderer if there is one, or the formatted value.
+  const renderCell = (column: Column<T>, row: T, rowId: RowId, rowIndex: number) => {
+    if (editing.isEditing(rowId, column)) {
+      return (
+        <CellEditor
+          column={column}
+          row={row}
+          value={editing.draft}
+          onChange={editing.setDraft}
+          error={editing.error}
+          validating={editing.validating}
+          onCommit={async (source) => {
+            if ((await editing.commit()) && source === 'enter') {
+              refocusActiveCell();
+            }
+          }}
+          onCancel={() => {
+            editing.cancel();
+            refocusActiveCell();
+          }}
+          onTab={(backwards) => void moveToNextEditableCell(rowId, column, backwards)}
+        />
+      );
+    }
+    const value = editing.getValue(rowId, column, row);
+    const formatted = formatters.get(column)?.(value, row) ?? '';
+    const content = column.cell ? column.cell({ value, formatted, row, rowIndex }) : formatted;
+    const editError = editing.getError(rowId, column);
+    return editError ? (
+      <div className="flex items-center space-x-1 text-red-600 dark:text-red-400" title={editError}>
+        <span>{content}</span>
+        <span aria-label={editError}>⚠</span>
+      </div>
+    ) : (
+      content
+    );
+  };
+
+  // Work out which rows and group headers are on the current page. Clamp the
+  // page in case the data shrank underneath it.
+  const totalRows = isServerSide ? server.total : expandedItems.length;
+  const pageCount = Math.max(1, Math.ceil(totalRows / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = React.useMemo(() => {
+    if (!isPaginated || isServerSide) {
+      return expandedItems;
+    }
+    const start = currentPage * pageSize;
+    return isGrouped ? paginateItems(expandedItems, start, pageSize) : expandedItems.slice(start, start + pageSize);
+  }, [isPaginated, isServerSide, isGrouped, expandedItems, currentPage, pageSize]);
+
+  // Key every row by its id rather than by its contents, and group headers
+  // by their group. pageRows and rowIds list the page's data rows only;
+  // itemRowIds and itemRowIndexes line up with pageItems and are null for
+  // group headers and detail panels.
+  const { pageRows, rowIds, itemRowIds, itemRowIndexes, itemKeys } = React.useMemo(() => {
+    const rows: T[] = [];
+    const ids: RowId[] = [];
+    const idsByItem: (RowId | null)[] = [];
+    const indexesByItem: (number | null)[] = [];
+    const keys: string[] = [];
+    pageItems.forEach((item) => {
+      if (item.type === 'group') {
+        idsByItem.push(null);
+        indexesByItem.push(null);
+        keys.push(`group:${item.group.id}`);
+      } else if (item.type === 'detail') {
+        idsByItem.push(null);
+        indexesByItem.push(null);
+        keys.push(`detail:${rowIdMap.get(item.row)}`);
+      } else {
+        const id = rowIdMap.get(item.row) ?? getRowId(item.row, rows.length);
+        indexesByItem.push(rows.length);
+        rows.push(item.row);
+        ids.push(id);
+        idsByItem.push(id);
+        keys.push(`row:${id}`);
+      }
+    });
+    return { pageRows: rows, rowIds: ids, itemRowIds: idsByItem, itemRowIndexes: indexesByItem, itemKeys: keys };
+  }, [pageItems, rowIdMap, getRowId]);
+
+  // Work out which rows to render when virtualized.
+  // Switch to cards when the container is narrow. Cards vary in height, so
+  // they are always measured.
+  const { containerRef, isCompact } = useCompactLayout(
+    responsive === false ? null : responsive === true ? defaultCardBreakpoint : responsive
+  );
+  const virtual = useVirtualRows({
+    enabled: virtualized,
+    keys: itemKeys,
+    rowHeight: isCompact ? undefined : rowHeight,
+    estimatedRowHeight,
+    overscan,
+  });
+  const visibleItems = virtualized ? pageItems.slice(virtual.startIndex, virtual.endIndex) : pageItems;
+
+  // Function to summarize a column over some rows, formatted for display.
+  const formatAggregate = React.useCallback((column: Column<T>, rows: T[]): string => {
+    if (!column.aggregate || rows.length === 0) {
+      return '';
+    }
+    const value = aggregateValues(
+      column.aggregate,
+      rows.map((row) => getColumnValue(column, row)),
+      rows
+    );
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return column.aggregate === 'count' ? String(value) : formatters.get(column)?.(value, rows[0]) ?? String(value);
+  }, [formatters]);
+
+  // The footer's aggregates, over every filtered row rather than one page.
+  const showFooter = aggregateFooter && displayColumns.some((column) => column.aggregate);
+  const footerAggregates = React.useMemo(
+    () => new Map(showFooter ? displayColumns.map((column) => [column, formatAggregate(column, sortedData)]) : []),
+    [showFooter, displayColumns, sortedData, formatAggregate]
+  );
+
+  // Function to describe a group, e.g. "City: London", using the grouped
+  // column's header and format when the field is a column.
+  const getGroupLabel = (group: RowGroup<T>): string => {
+    const column = columns.find((c) => String(c.key) === group.key);
+    if (!column) {
+      return `${group.key}: ${group.value ?? ''}`;
+    }
+    return `${getColumnLabel(column)}: ${formatters.get(column)?.(group.value, group.rows[0]) ?? ''}`;
+  };
+
+  // Export the rows in view, optionally only the selected ones, with the
+  // columns in display order.
+  const exportFormats = React.useMemo(
+    () => (exportable === true ? allExportFormats : exportable || []),
+    [exportable]
+  );
+  const isRowSelected = selection.isSelected;
+  const selectedInView = React.useMemo(
+    () => (exportFormats.length > 0 ? viewRows.filter((row) => isRowSelected(rowIdMap.get(row) ?? -1)) : []),
+    [exportFormats, viewRows, isRowSelected, rowIdMap]
+  );
+  const handleExport = (format: ExportFormat, values: ExportValues, selectedOnly: boolean) => {
+    const file = createExportFile(selectedOnly ? selectedInView : viewRows, displayColumns, {
+      format,
+      values,
+      fileName: exportFileName,
+    });
+    if (onExport) {
+      onExport(file);
     } else {
-      newSelectedRows = [...selectedRows, row];
+      downloadExportFile(file);
     }
-    
-    setSelectedRows(newSelectedRows);
-    
-    // Call the optional onRowSelect callback.
-    if (onRowSelect) {
-      onRowSelect(newSelectedRows);
+  };
+
+  // Keyboard navigation follows the WAI-ARIA grid pattern: one cell is in
+  // the tab order at a time and the arrow keys move between cells. Row 0 is
+  // the header row. The checkbox column, then the detail toggle column, come
+  // before the data columns when shown. Detail panels are a single cell.
+  const leadingColumnCount = (selectable ? 1 : 0) + (hasRowDetail ? 1 : 0);
+  const expanderColumnIndex = selectable ? 1 : 0;
+  const columnCount = displayColumns.length + leadingColumnCount;
+  const [activeCell, setActiveCell] = useState<GridCell>({ row: 0, col: 0 });
+  const activeRow = Math.min(activeCell.row, pageItems.length);
+  const focusedCell = {
+    row: activeRow,
+    col: pageItems[activeRow - 1]?.type === 'detail' ? 0 : Math.min(activeCell.col, columnCount - 1),
+  };
+  const gridRef = useRef<HTMLTableElement>(null);
+  // Set when focus should move to the active cell once it is rendered.
+  const shouldFocusCell = useRef(false);
+
+  useEffect(() => {
+    if (!shouldFocusCell.current) {
+      return;
+    }
+    const cell = gridRef.current?.querySelector<HTMLElement>(`[data-cell="${focusedCell.row}:${focusedCell.col}"]`);
+    if (cell) {
+      shouldFocusCell.current = false;
+      cell.focus();
+    }
+  });
+
+  // Function to move keyboard focus to a cell, scrolling it into view first
+  // when virtualized.
+  const focusCell = (cell: GridCell) => {
+    shouldFocusCell.current = true;
+    setActiveCell(cell);
+    if (cell.row > 0) {
+      virtual.scrollToIndex(cell.row - 1);
     }
   };
 
-  // Function to handle column sorting.
-  const handleSort = (key: keyof T) => {
-    let direction: 'asc' | 'desc' = 'asc';
-    if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
-      direction = 'desc';
+  // Function to return focus to the active cell, e.g. after an edit closes.
+  const refocusActiveCell = () => focusCell({ ...focusedCell });
+
+  // Selection state for the tri-state header checkbox and the "select all
+  // pages" banner.
+  const isMultiSelect = selectionMode === 'multiple';
+  const pageSelectedCount = rowIds.filter(selection.isSelected).length;
+  const isPageSelected = rowIds.length > 0 && pageSelectedCount === rowIds.length;
+  const canSelectAllPages = isMultiSelect && isPaginated && !isServerSide && pageCount > 1;
+  const allRowIds = React.useMemo(
+    () => (canSelectAllPages ? viewRows.map((row, index) => rowIdMap.get(row) ?? getRowId(row, index)) : []),
+    [canSelectAllPages, viewRows, rowIdMap, getRowId]
+  );
+  const areAllPagesSelected = canSelectAllPages && allRowIds.every(selection.isSelected);
+
+  // Function to commit the current edit and open the next (or previous)
+  // editable cell on the page, moving across rows.
+  const moveToNextEditableCell = async (rowId: RowId, column: Column<T>, backwards: boolean) => {
+    const cells = pageRows.flatMap((row, index) =>
+      displayColumns.filter((c) => isCellEditable(c, row)).map((c) => ({ rowId: rowIds[index], column: c, row }))
+    );
+    const index = cells.findIndex((cell) => cell.rowId === rowId && cell.column.key === column.key);
+    const next = cells[index + (backwards ? -1 : 1)];
+    if (await editing.commit()) {
+      if (next) {
+        editing.start(next);
+        setActiveCell({
+          row: itemRowIds.indexOf(next.rowId) + 1,
+          col: displayColumns.indexOf(next.column) + leadingColumnCount,
+        });
+      } else {
+        refocusActiveCell();
+      }
     }
-    setSortConfig({ key, direction });
   };
 
-  // Sort the data based on the current sort configuration.
-  const sortedData = React.useMemo(() => {
-    const sortableItems = [...data];
-    if (sortConfig !== null) {
-      sortableItems.sort((a, b) => {
-        const aValue = a[sortConfig.key];
-        const bValue = b[sortConfig.key];
-        
-        // Handle sorting for strings and numbers.
-        if (typeof aValue === 'string' && typeof bValue === 'string') {
-          if (aValue < bValue) {
-            return sortConfig.direction === 'asc' ? -1 : 1;
-          }
-          if (aValue > bValue) {
-            return sortConfig.direction === 'asc' ? 1 : -1;
-          }
-        } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-          if (sortConfig.direction === 'asc') {
-            return aValue - bValue;
-          } else {
-            return bValue - aValue;
-          }
-        }
-        return 0;
-      });
+  // Function to read the ids of a tree row and all of its descendants in view.
+  const getSubtreeIds = (row: T): RowId[] => {
+    const ids: RowId[] = [];
+    const visit = (current: T) => {
+      const id = rowIdMap.get(current);
+      if (id !== undefined) {
+        ids.push(id);
+      }
+      tree?.children.get(current)?.forEach(visit);
+    };
+    visit(row);
+    return ids;
+  };
+
+  // Function to read a row's expansion and checkbox state. A tree parent's
+  // checkbox reflects its whole subtree.
+  const getRowState = (row: T, rowId: RowId) => {
+    const isParent = tree?.children.has(row) ?? false;
+    const subtreeIds = isParent && isMultiSelect ? getSubtreeIds(row) : [];
+    const subtreeSelectedCount = subtreeIds.filter(selection.isSelected).length;
+    return {
+      isParent,
+      isExpanded: isParent && (isFiltered || expandedSet.has(rowId)),
+      isChecked: subtreeIds.length > 0 ? subtreeSelectedCount === subtreeIds.length : selection.isSelected(rowId),
+      isIndeterminate: subtreeSelectedCount > 0 && subtreeSelectedCount < subtreeIds.length,
+    };
+  };
+
+  // Function to toggle a row. Shift extends the selection from the last
+  // toggled row, in display order. Toggling a tree row toggles its
+  // descendants with it.
+  const handleToggleRow = (rowId: RowId, shiftKey: boolean) => {
+    const row = knownRows.current.get(rowId);
+    if (tree && isMultiSelect && !shiftKey && row !== undefined && tree.children.has(row)) {
+      const ids = getSubtreeIds(row);
+      selection.setMany(ids, !ids.every(selection.isSelected));
+      return;
+    }
+    selection.toggle(rowId, shiftKey && isMultiSelect, rowIds);
+  };
+
+  // Function to read the ids of every row in a group, including collapsed
+  // ones and tree rows under them.
+  const getGroupRowIds = (group: RowGroup<T>) => group.rows.flatMap(getSubtreeIds);
+
+  // Function to select a group's rows, or deselect them when all are selected.
+  const toggleGroupSelection = (group: RowGroup<T>) => {
+    const ids = getGroupRowIds(group);
+    selection.setMany(ids, !ids.every(selection.isSelected));
+  };
+
+  // Function to handle keys on the focused cell: navigation, Space to
+  // select a row, Enter to sort by a header or F2/Enter to edit a cell.
+  const handleGridKeyDown = (event: React.KeyboardEvent<HTMLTableElement>) => {
+    // Leave keys typed into an inline editor or other control alone.
+    if (!(event.target as HTMLElement).hasAttribute('data-cell')) {
+      return;
+    }
+    const next = getNextCell(event.key, event.ctrlKey || event.metaKey, focusedCell, {
+      rowCount: pageItems.length + 1,
+      colCount: columnCount,
+      pageRows: Math.max(1, virtual.endIndex - virtual.startIndex - 2),
+    });
+    if (next) {
+      event.preventDefault();
+      focusCell(next);
+      return;
+    }
+
+    const isActivation = event.key === 'Enter' || event.key === ' ';
+    const column = displayColumns[focusedCell.col - leadingColumnCount];
+    if (focusedCell.row === 0) {
+      if (isActivation && column && column.sortable !== false) {
+        event.preventDefault();
+        handleSort(String(column.key), event.shiftKey);
+      } else if (isActivation && selectable && focusedCell.col === 0 && isMultiSelect) {
+        event.preventDefault();
+        selection.setMany(rowIds, !isPageSelected);
+      }
+      return;
     }
-    return sortableItems;
-  }, [data, sortConfig]);
+
+    const item = pageItems[focusedCell.row - 1];
+    const rowId = itemRowIds[focusedCell.row - 1];
+    if (item.type === 'group') {
+      // Space selects the group's rows; Enter expands or collapses it.
+      if (event.key === ' ' && selectable && isMultiSelect) {
+        event.preventDefault();
+        toggleGroupSelection(item.group);
+      } else if (isActivation) {
+        event.preventDefault();
+        toggleGroup(item.group.id);
+      }
+      return;
+    }
+    // Detail panels have nothing to activate.
+    if (item.type !== 'row' || rowId === null) {
+      return;
+    }
+    if (isActivation && hasRowDetail && focusedCell.col === expanderColumnIndex) {
+      event.preventDefault();
+      toggleDetail(rowId);
+    } else if (event.key === ' ' && selectable) {
+      event.preventDefault();
+      handleToggleRow(rowId, event.shiftKey);
+    } else if (
+      event.key === 'Enter' &&
+      column === displayColumns[0] &&
+      tree?.children.has(item.row) &&
+      !isFiltered &&
+      !isCellEditable(column, item.row)
+    ) {
+      // Enter on a parent row's first cell shows or hides its children.
+      event.preventDefault();
+      toggleExpanded(rowId);
+    } else if ((event.key === 'Enter' || event.key === 'F2') && column && isCellEditable(column, item.row)) {
+      event.preventDefault();
+      editing.start({ rowId, column, row: item.row });
+    }
+  };
 
   // Define Tailwind CSS classes for the component.
   const tableClasses = twMerge(
@@ -107,83 +893,855 @@ export const DataTable = <T,>({
     'border-b border-gray-200 dark:border-gray-700'
   );
 
-  // If loading, show a loading state.
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center p-8 bg-gray-50 dark:bg-gray-800 rounded-lg">
-        <p className="text-gray-500 dark:text-gray-400">Loading data...</p>
-      </div>
+  // Pinned columns stick to their edge during horizontal scrolling, offset
+  // by the measured widths of the pinned columns before them. The checkbox
+  // and detail toggle columns are pinned along with any left-pinned column.
+  const pins: Record<string, ColumnPin> = {};
+  displayColumns.forEach((column) => {
+    pins[String(column.key)] = getColumnPin(column, columnState);
+  });
+  const hasLeftPins = Object.values(pins).includes('left');
+  const hasPins = hasLeftPins || Object.values(pins).includes('right');
+  const leadingKeys = [...(selectable ? [selectionColumnKey] : []), ...(hasRowDetail ? [expanderColumnKey] : [])];
+  leadingKeys.forEach((key) => {
+    pins[key] = hasLeftPins && 'left';
+  });
+  const columnWidths = useColumnWidths(hasPins);
+  const pinnedStyles = getPinnedStyles(
+    [...leadingKeys, ...displayColumns.map((column) => String(column.key))],
+    pins,
+    columnWidths.widths
+  );
+
+  // Drag the edge of a header to resize its column. Pointer capture keeps
+  // the moves coming while the pointer is outside the handle.
+  const resizing = useRef<{ key: string; startX: number; startWidth: number } | null>(null);
+  const handleResizeStart = (event: React.PointerEvent<HTMLElement>, key: string) => {
+    const header = event.currentTarget.closest('th');
+    if (!header) {
+      return;
+    }
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    resizing.current = { key, startX: event.clientX, startWidth: header.getBoundingClientRect().width };
+  };
+  const handleResizeMove = (event: React.PointerEvent<HTMLElement>) => {
+    if (resizing.current) {
+      const { key, startX, startWidth } = resizing.current;
+      setColumnState(setColumnWidth(columnState, key, startWidth + event.clientX - startX));
+    }
+  };
+  const handleResizeEnd = () => {
+    resizing.current = null;
+  };
+
+  // Drag a header onto another to move its column there.
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const endColumnDrag = () => {
+    setDragKey(null);
+    setDropKey(null);
+  };
+
+  // The filter toolbar stays in place through loading, so typing in the
+  // search box never loses focus.
+  const exportMenu = exportFormats.length > 0 && (
+    <DataTableExportMenu formats={exportFormats} selectedCount={selectedInView.length} onExport={handleExport} />
+  );
+  const toolbarActions = (columnMenu || exportMenu) && (
+    <>
+      {columnMenu && (
+        <DataTableColumnMenu
+          columns={columns}
+          columnState={columnState}
+          onColumnStateChange={setColumnState}
+          defaultColumnState={defaultColumnState}
+        />
+      )}
+      {exportMenu}
+    </>
+  );
+  const toolbar = filterable ? (
+    <DataTableToolbar
+      columns={columns}
+      filters={filters}
+      onFiltersChange={setFilters}
+      getFilterOptions={getFilterOptions}
+      actions={toolbarActions}
+    />
+  ) : (
+    toolbarActions && <div className="flex justify-end space-x-2 pb-4">{toolbarActions}</div>
+  );
+  const containerClasses = 'p-4 bg-white dark:bg-gray-900 rounded-lg shadow font-inter';
+
+  // While loading, the header and any rows already shown stay in place:
+  // skeleton rows stand in for the first load, and a refresh keeps the
+  // previous rows under a progress bar.
+  const isLoading = loading || (isServerSide && server.loading);
+  const hasRows = sortedData.length > 0;
+  const showSkeleton = isLoading && !hasRows;
+  const tableError = error ?? (isServerSide ? server.error : null);
+  const hasError = tableError !== null && tableError !== undefined && tableError !== false;
+  const canRetry = Boolean(onRetry) || (isServerSide && server.error !== null);
+  const handleRetry = () => {
+    if (isServerSide && server.error !== null) {
+      server.reload();
+    }
+    onRetry?.();
+  };
+  const clearFilters = () => setFilters(emptyFilterState);
+  const showEmptyState = !hasRows && !isLoading && !hasError;
+  const emptyStateClasses = 'p-8 text-center text-gray-500 dark:text-gray-400';
+  const emptyState = isFiltered ? (
+    renderNoResults ? (
+      renderNoResults(clearFilters)
+    ) : (
+      <>
+        <p>No rows match your filters.</p>
+        <Button variant="link" size="sm" onClick={clearFilters}>
+          Clear filters
+        </Button>
+      </>
+    )
+  ) : renderEmpty ? (
+    renderEmpty()
+  ) : (
+    'No data to display.'
+  );
+
+  // Header cells stick to the top of the scroll container when virtualized.
+  const headerCellClasses = twMerge(
+    'p-4',
+    virtualized ? 'sticky top-0 z-10 bg-white dark:bg-gray-900 shadow-[inset_0_-1px_0] shadow-gray-200 dark:shadow-gray-700' : ''
+  );
+  const focusClasses = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500';
+  // Pinned cells need a background so scrolled content doesn't show through.
+  const pinnedHeaderClasses = 'z-20 bg-white dark:bg-gray-900';
+  const groupRowClasses = 'bg-gray-50 font-semibold dark:bg-gray-800';
+  const pinnedCellClasses = (isSelected: boolean) =>
+    twMerge('z-[1] bg-white dark:bg-gray-900', isSelected ? 'bg-blue-100 dark:bg-blue-900' : '');
+
+  // Function to give a cell its grid position and roving tabindex.
+  const gridCellProps = (row: number, col: number) => ({
+    'data-cell': `${row}:${col}`,
+    tabIndex: row === focusedCell.row && col === focusedCell.col ? 0 : -1,
+    onFocus: (event: React.FocusEvent<HTMLElement>) => {
+      if (event.target === event.currentTarget) {
+        setActiveCell({ row, col });
+      }
+    },
+  });
+
+  // Only announce row counts and positions when some rows are not in the DOM.
+  const hasPartialRows = isPaginated || virtualized;
+  const rowOffset = isPaginated ? currentPage * pageSize : 0;
+
+  // On narrow screens each row is a card: the primary columns form its title
+  // and the secondary columns are listed with their headers.
+  const cardColumns = getCardColumns(displayColumns);
+  const sortableColumns = displayColumns.filter((column) => column.sortable !== false);
+  const cardClasses = 'rounded-lg border border-gray-200 p-4 dark:border-gray-700';
+  const chevron = (isOpen: boolean) =>
+    isOpen ? (
+      <ChevronDownIcon aria-hidden="true" className="h-4 w-4" />
+    ) : (
+      <ChevronRightIcon aria-hidden="true" className="h-4 w-4" />
     );
-  }
+  const cardList = isCompact && (
+    <>
+      {/* Stand in for the header row: select the page and pick a sort */}
+      {((selectable && isMultiSelect) || sortableColumns.length > 0) && (
+        <div className="mb-2 flex items-center justify-between space-x-2">
+          {selectable && isMultiSelect ? (
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <SelectionCheckbox
+                checked={isPageSelected}
+                indeterminate={pageSelectedCount > 0 && !isPageSelected}
+                onChange={() => selection.setMany(rowIds, !isPageSelected)}
+              />
+              <span>Select all on this page</span>
+            </label>
+          ) : (
+            <span />
+          )}
+          {sortableColumns.length > 0 && (
+            <DataTableSortSelect
+              columns={sortableColumns}
+              sort={sort}
+              onSortChange={(next) => {
+                setSort(next);
+                changePage(0, pageSize);
+              }}
+            />
+          )}
+        </div>
+      )}
+      <div
+        ref={virtual.scrollRef}
+        className={virtualized ? 'overflow-auto' : undefined}
+        style={virtualized ? { height } : undefined}
+      >
+        {/* Cards are spaced with padding inside each item, so measured heights include the gap */}
+        <ul
+          aria-label="Rows"
+          aria-busy={isLoading}
+          className={isLoading && hasRows ? 'opacity-60 transition-opacity' : 'transition-opacity'}
+        >
+          {showSkeleton &&
+            Array.from({ length: skeletonRowCount }, (_, index) => (
+              <li key={index} aria-hidden="true" className="pb-3">
+                <div className={twMerge(cardClasses, 'space-y-2')}>
+                  <div className="h-4 w-1/2 animate-pulse rounded bg-gray-200 dark:bg-gray-700" />
+                  <div className="h-4 w-3/4 animate-pulse rounded bg-gray-200 dark:bg-gray-700" />
+                </div>
+              </li>
+            ))}
+          {virtualized && virtual.paddingTop > 0 && <li aria-hidden="true" style={{ height: virtual.paddingTop }} />}
+          {visibleItems.map((item, visibleIndex) => {
+            const itemIndex = virtual.startIndex + visibleIndex;
+            const itemKey = itemKeys[itemIndex];
+            const itemProps = {
+              ref: virtualized ? virtual.measureRow(itemKey) : undefined,
+              className: 'pb-3',
+              style: { marginLeft: `${(item.type === 'group' ? item.group.depth : item.depth) * 1.5}rem` },
+            };
+
+            if (item.type === 'group') {
+              const { group } = item;
+              const isExpanded = !collapsedGroups.has(group.id);
+              const groupRowIds = selectable ? getGroupRowIds(group) : [];
+              const selectedCount = groupRowIds.filter(selection.isSelected).length;
+              const isGroupSelected = selectedCount > 0 && selectedCount === groupRowIds.length;
+              return (
+                <li key={itemKey} {...itemProps}>
+                  <div className={twMerge('flex items-center space-x-2 rounded-lg p-3', groupRowClasses)}>
+                    {selectable && isMultiSelect && (
+                      <SelectionCheckbox
+                        aria-label={`Select all rows in ${getGroupLabel(group)}`}
+                        checked={isGroupSelected}
+                        indeterminate={selectedCount > 0 && !isGroupSelected}
+                        onChange={() => toggleGroupSelection(group)}
+                      />
+                    )}
+                    <button
+                      type="button"
+                      aria-expanded={isExpanded}
+                      className="flex flex-1 items-center space-x-1 text-left"
+                      onClick={() => toggleGroup(group.id)}
+                    >
+                      {chevron(isExpanded)}
+                      <span>{getGroupLabel(group)}</span>
+                      <span className="font-normal text-gray-500 dark:text-gray-400">({group.rows.length})</span>
+                    </button>
+                  </div>
+                </li>
+              );
+            }
 
-  // If data is empty, show an empty state.
-  if (data.length === 0) {
-    return (
-      <div className="flex items-center justify-center p-8 bg-gray-50 dark:bg-gray-800 rounded-lg">
-        <p className="text-gray-500 dark:text-gray-400">No data to display.</p>
+            const { row } = item;
+            if (item.type === 'detail') {
+              return (
+                <li key={itemKey} {...itemProps}>
+                  <div className="rounded-lg bg-gray-50 p-4 dark:bg-gray-800">{renderRowDetail?.(row)}</div>
+                </li>
+              );
+            }
+
+            const rowId = itemRowIds[itemIndex] as RowId;
+            const rowIndex = itemRowIndexes[itemIndex] as number;
+            const isSelected = selection.isSelected(rowId);
+            const isDetailOpen = openDetails.has(rowId);
+            const { isParent, isExpanded, isChecked, isIndeterminate } = getRowState(row, rowId);
+            return (
+              <li key={itemKey} {...itemProps}>
+                <div
+                  className={twMerge(
+                    cardClasses,
+                    'flex items-start space-x-3',
+                    selectable ? 'cursor-pointer' : '',
+                    isSelected ? 'border-blue-300 bg-blue-50 dark:border-blue-700 dark:bg-blue-950' : ''
+                  )}
+                  onClick={selectable ? (event) => handleToggleRow(rowId, event.shiftKey) : undefined}
+                >
+                  {selectable && (
+                    <SelectionCheckbox
+                      aria-label="Select row"
+                      checked={isChecked}
+                      indeterminate={isIndeterminate}
+                      onClick={(event) => event.stopPropagation()}
+                      onChange={(event) => {
+                        const { nativeEvent } = event;
+                        handleToggleRow(rowId, 'shiftKey' in nativeEvent && nativeEvent.shiftKey === true);
+                      }}
+                    />
+                  )}
+                  {isParent && (
+                    <button
+                      type="button"
+                      aria-expanded={isExpanded}
+                      aria-label={isExpanded ? 'Collapse row' : 'Expand row'}
+                      className="rounded p-0.5 hover:bg-gray-200 disabled:opacity-50 dark:hover:bg-gray-700"
+                      disabled={isFiltered}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleExpanded(rowId);
+                      }}
+                    >
+                      {chevron(isExpanded)}
+                    </button>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    {cardColumns.primary.length > 0 && (
+                      <div className="font-semibold text-gray-900 dark:text-gray-100">
+                        {cardColumns.primary.map((column) => (
+                          <div key={String(column.key)}>{renderCell(column, row, rowId, rowIndex)}</div>
+                        ))}
+                      </div>
+                    )}
+                    {cardColumns.secondary.length > 0 && (
+                      <dl className="mt-2 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                        {cardColumns.secondary.map((column) => {
+                          const editable = isCellEditable(column, row);
+                          return (
+                            <React.Fragment key={String(column.key)}>
+                              <dt className="text-gray-500 dark:text-gray-400">{column.header}</dt>
+                              <dd
+                                className={twMerge('min-w-0', editable ? 'cursor-text' : '')}
+                                onDoubleClick={editable ? () => editing.start({ rowId, column, row }) : undefined}
+                              >
+                                {renderCell(column, row, rowId, rowIndex)}
+                              </dd>
+                            </React.Fragment>
+                          );
+                        })}
+                      </dl>
+                    )}
+                  </div>
+                  {hasRowDetail && (
+                    <button
+                      type="button"
+                      aria-expanded={isDetailOpen}
+                      aria-label={isDetailOpen ? 'Hide details' : 'Show details'}
+                      className="rounded p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        toggleDetail(rowId);
+                      }}
+                    >
+                      {chevron(isDetailOpen)}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+          {showEmptyState && <li className={emptyStateClasses}>{emptyState}</li>}
+          {virtualized && virtual.paddingBottom > 0 && <li aria-hidden="true" style={{ height: virtual.paddingBottom }} />}
+        </ul>
       </div>
-    );
-  }
+    </>
+  );
 
   // Render the actual table with data.
   return (
-    <div className="p-4 bg-white dark:bg-gray-900 rounded-lg shadow font-inter">
-      <table className={tableClasses}>
-        <thead>
-          <tr>
-            {/* Render a checkbox column if selectable */}
-            {selectable && (
-              <th className="p-4"></th>
-            )}
-            {/* Render column headers */}
-            {columns.map((column) => (
-              <th
-                key={column.key as string}
-                className="p-4 cursor-pointer"
-                onClick={() => handleSort(column.key)}
-              >
-                <div className="flex items-center space-x-2">
-                  <span>{column.header}</span>
-                  {/* Show sorting indicator */}
-                  {sortConfig?.key === column.key && (
-                    <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
-                  )}
-                </div>
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody>
-          {/* Render table rows with sorted data */}
-          {sortedData.map((row) => (
-            <tr
-              key={JSON.stringify(row)}
-              className={twMerge(
-                rowClasses,
-                selectable ? 'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors' : '',
-                selectedRows.includes(row) ? 'bg-blue-100 dark:bg-blue-900' : ''
+    <div ref={containerRef} className={containerClasses}>
+      {toolbar}
+      {/* Show why the rows couldn't be loaded */}
+      {hasError && (
+        <Alert variant="critical" className="mb-4">
+          <AlertTitle>Couldn't load the rows</AlertTitle>
+          <AlertDescription>{getErrorMessage(tableError)}</AlertDescription>
+          {canRetry && (
+            <AlertActions>
+              <Button variant="outline" size="sm" onClick={handleRetry}>
+                Retry
+              </Button>
+            </AlertActions>
+          )}
+        </Alert>
+      )}
+      {/* Offer to extend a full-page selection to every page */}
+      {selectable && canSelectAllPages && isPageSelected && (
+        <div className="mb-2 rounded bg-blue-50 p-2 text-center text-sm text-gray-700 dark:bg-blue-950 dark:text-gray-300">
+          {areAllPagesSelected ? (
+            <>
+              All {viewRows.length} rows are selected.{' '}
+              <button type="button" className="font-semibold text-blue-600 hover:underline" onClick={() => selection.replace([])}>
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              All {pageRows.length} rows on this page are selected.{' '}
+              <button type="button" className="font-semibold text-blue-600 hover:underline" onClick={() => selection.setMany(allRowIds, true)}>
+                Select all {viewRows.length} rows
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {/* Show progress over the current rows without moving them */}
+      <div className="h-0.5 overflow-hidden">
+        {isLoading && hasRows && (
+          <div role="progressbar" aria-label="Loading rows" className="h-full w-full animate-pulse bg-blue-500" />
+        )}
+      </div>
+      {isCompact ? (
+        cardList
+      ) : (
+        <div
+          ref={virtual.scrollRef}
+          className={virtualized ? 'overflow-auto' : 'overflow-x-auto'}
+          style={virtualized ? { height } : undefined}
+        >
+          <table
+            ref={gridRef}
+            role={isTreeGrid ? 'treegrid' : 'grid'}
+            aria-rowcount={hasPartialRows ? totalRows + 1 : undefined}
+            aria-colcount={columnCount}
+            aria-multiselectable={selectable ? isMultiSelect : undefined}
+            aria-busy={isLoading}
+            // Sticky headers and pinned columns need the table not to clip them.
+            className={twMerge(tableClasses, virtualized || hasPins ? 'overflow-visible' : '')}
+            onKeyDown={handleGridKeyDown}
+          >
+            <thead>
+              <tr aria-rowindex={hasPartialRows ? 1 : undefined}>
+                {/* Render a checkbox column if selectable */}
+                {selectable && (
+                  <th
+                    ref={columnWidths.measureColumn(selectionColumnKey)}
+                    className={twMerge(headerCellClasses, focusClasses, hasLeftPins ? pinnedHeaderClasses : '')}
+                    style={pinnedStyles[selectionColumnKey]}
+                    {...gridCellProps(0, 0)}
+                  >
+                    {isMultiSelect && (
+                      <SelectionCheckbox
+                        tabIndex={-1}
+                        aria-label="Select all rows on this page"
+                        checked={isPageSelected}
+                        indeterminate={pageSelectedCount > 0 && !isPageSelected}
+                        onChange={() => selection.setMany(rowIds, !isPageSelected)}
+                      />
+                    )}
+                  </th>
+                )}
+                {/* Render the detail toggle column */}
+                {hasRowDetail && (
+                  <th
+                    ref={columnWidths.measureColumn(expanderColumnKey)}
+                    className={twMerge(headerCellClasses, focusClasses, 'w-px', hasLeftPins ? pinnedHeaderClasses : '')}
+                    style={pinnedStyles[expanderColumnKey]}
+                    {...gridCellProps(0, expanderColumnIndex)}
+                  >
+                    <span className="sr-only">Details</span>
+                  </th>
+                )}
+                {/* Render column headers */}
+                {displayColumns.map((column, columnIndex) => {
+                  const key = String(column.key);
+                  const width = columnState.widths[key] ?? column.width;
+                  const sortable = column.sortable !== false;
+                  const sortIndex = sort.findIndex((config) => config.key === key);
+                  const label = (
+                    <>
+                      <span>{column.header}</span>
+                      {/* Show sorting indicator, with the priority when sorting by several columns */}
+                      {sortIndex !== -1 && (
+                        <span aria-hidden="true" className="flex items-center text-xs">
+                          {sort[sortIndex].direction === 'asc' ? '▲' : '▼'}
+                          {sort.length > 1 && <sup className="ml-0.5">{sortIndex + 1}</sup>}
+                        </span>
+                      )}
+                    </>
+                  );
+                  const contentClasses = twMerge('flex items-center space-x-2', headerAlignClasses[column.align ?? 'left']);
+                  return (
+                    <th
+                      key={key}
+                      ref={columnWidths.measureColumn(key)}
+                      className={twMerge(
+                        headerCellClasses,
+                        focusClasses,
+                        alignClasses[column.align ?? 'left'],
+                        'relative',
+                        pins[key] ? pinnedHeaderClasses : '',
+                        dragKey === key ? 'opacity-50' : '',
+                        dropKey === key ? 'shadow-[inset_2px_0] shadow-blue-500' : ''
+                      )}
+                      style={{ ...(width !== undefined ? { width, minWidth: width } : {}), ...pinnedStyles[key] }}
+                      aria-sort={
+                        sortIndex === 0 ? (sort[0].direction === 'asc' ? 'ascending' : 'descending') : undefined
+                      }
+                      draggable={reorderableColumns}
+                      onDragStart={
+                        reorderableColumns
+                          ? (event) => {
+                              event.dataTransfer.effectAllowed = 'move';
+                              event.dataTransfer.setData('text/plain', key);
+                              setDragKey(key);
+                            }
+                          : undefined
+                      }
+                      onDragOver={
+                        dragKey !== null && dragKey !== key
+                          ? (event) => {
+                              event.preventDefault();
+                              setDropKey(key);
+                            }
+                          : undefined
+                      }
+                      onDragLeave={dropKey === key ? () => setDropKey(null) : undefined}
+                      onDrop={
+                        dragKey !== null
+                          ? (event) => {
+                              event.preventDefault();
+                              setColumnState(moveColumn(columns, columnState, dragKey, key));
+                              endColumnDrag();
+                            }
+                          : undefined
+                      }
+                      onDragEnd={reorderableColumns ? endColumnDrag : undefined}
+                      {...gridCellProps(0, columnIndex + leadingColumnCount)}
+                    >
+                      <div className="flex items-center space-x-1">
+                        {/* Expand or collapse every tree row from the first column */}
+                        {tree && columnIndex === 0 && (
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            aria-label={isTreeExpanded ? 'Collapse all rows' : 'Expand all rows'}
+                            className="rounded p-0.5 hover:bg-gray-100 dark:hover:bg-gray-800"
+                            onClick={() => setExpandedIds(isTreeExpanded ? [] : parentRowIds)}
+                          >
+                            {isTreeExpanded ? (
+                              <ChevronsDownUpIcon aria-hidden="true" className="h-4 w-4" />
+                            ) : (
+                              <ChevronsUpDownIcon aria-hidden="true" className="h-4 w-4" />
+                            )}
+                          </button>
+                        )}
+                        {sortable ? (
+                          <button
+                            type="button"
+                            tabIndex={-1}
+                            className={twMerge(contentClasses, 'w-full cursor-pointer select-none font-semibold')}
+                            onClick={(event) => handleSort(key, event.shiftKey)}
+                          >
+                            {label}
+                          </button>
+                        ) : (
+                          <div className={twMerge(contentClasses, 'w-full')}>{label}</div>
+                        )}
+                      </div>
+                      {resizableColumns && column.resizable !== false && (
+                        <div
+                          aria-hidden="true"
+                          className="absolute right-0 top-0 h-full w-2 cursor-col-resize touch-none select-none hover:bg-blue-500/40"
+                          draggable={false}
+                          onPointerDown={(event) => handleResizeStart(event, key)}
+                          onPointerMove={handleResizeMove}
+                          onPointerUp={handleResizeEnd}
+                          onPointerCancel={handleResizeEnd}
+                          onDoubleClick={() => setColumnState(setColumnWidth(columnState, key, undefined))}
+                        />
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className={isLoading && hasRows ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+              {/* Stand in for the rows until the first ones load */}
+              {showSkeleton &&
+                Array.from({ length: skeletonRowCount }, (_, index) => (
+                  <tr key={index} aria-hidden="true" className={rowClasses}>
+                    {Array.from({ length: columnCount }, (_, cellIndex) => (
+                      <td key={cellIndex} className="p-4">
+                        <div className="h-4 w-3/4 animate-pulse rounded bg-gray-200 dark:bg-gray-700" />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              {/* Reserve the space of the rows above the viewport */}
+              {virtualized && virtual.paddingTop > 0 && (
+                <tr aria-hidden="true" style={{ height: virtual.paddingTop }}>
+                  <td colSpan={columnCount} className="p-0" />
+                </tr>
               )}
-              onClick={() => selectable && handleRowClick(row)}
-            >
-              {selectable && (
-                <td className="p-4">
-                  <input
-                    type="checkbox"
-                    checked={selectedRows.includes(row)}
-                    onChange={() => {}} // onChange is required for controlled components
-                    className="form-checkbox rounded text-blue-500"
-                  />
-                </td>
+              {/* Render group headers and table rows for the current page */}
+              {visibleItems.map((item, visibleIndex) => {
+                const itemIndex = virtual.startIndex + visibleIndex;
+                const itemKey = itemKeys[itemIndex];
+                const rowProps = {
+                  ref: virtualized ? virtual.measureRow(itemKey) : undefined,
+                  'aria-rowindex': hasPartialRows ? rowOffset + itemIndex + 2 : undefined,
+                  'aria-level': isTreeGrid ? (item.type === 'group' ? item.group.depth : item.depth) + 1 : undefined,
+                  style: virtualized && rowHeight !== undefined ? { height: rowHeight } : undefined,
+                };
+                // Indent the first column by the row's nesting level.
+                const indentStyle = (depth: number) => (isTreeGrid ? { paddingLeft: `${1 + depth * 1.5}rem` } : undefined);
+
+                if (item.type === 'group') {
+                  const { group } = item;
+                  const isExpanded = !collapsedGroups.has(group.id);
+                  const groupRowIds = selectable ? getGroupRowIds(group) : [];
+                  const selectedCount = groupRowIds.filter(selection.isSelected).length;
+                  const isGroupSelected = selectedCount > 0 && selectedCount === groupRowIds.length;
+                  return (
+                    <tr
+                      key={itemKey}
+                      {...rowProps}
+                      aria-expanded={isExpanded}
+                      className={twMerge(rowClasses, groupRowClasses)}
+                    >
+                      {selectable && (
+                        <td
+                          className={twMerge('p-4', focusClasses, hasLeftPins ? twMerge('z-[1]', groupRowClasses) : '')}
+                          style={pinnedStyles[selectionColumnKey]}
+                          {...gridCellProps(itemIndex + 1, 0)}
+                        >
+                          {isMultiSelect && (
+                            <SelectionCheckbox
+                              tabIndex={-1}
+                              aria-label={`Select all rows in ${getGroupLabel(group)}`}
+                              checked={isGroupSelected}
+                              indeterminate={selectedCount > 0 && !isGroupSelected}
+                              onChange={() => toggleGroupSelection(group)}
+                            />
+                          )}
+                        </td>
+                      )}
+                      {hasRowDetail && (
+                        <td
+                          className={twMerge('p-4', focusClasses, hasLeftPins ? twMerge('z-[1]', groupRowClasses) : '')}
+                          style={pinnedStyles[expanderColumnKey]}
+                          {...gridCellProps(itemIndex + 1, expanderColumnIndex)}
+                        />
+                      )}
+                      {displayColumns.map((column, columnIndex) => {
+                        const key = String(column.key);
+                        return (
+                          <td
+                            key={key}
+                            className={twMerge(
+                              'p-4',
+                              focusClasses,
+                              columnIndex === 0 ? '' : alignClasses[column.align ?? 'left'],
+                              pins[key] ? twMerge('z-[1]', groupRowClasses) : ''
+                            )}
+                            style={{ ...pinnedStyles[key], ...(columnIndex === 0 ? indentStyle(group.depth) : {}) }}
+                            {...gridCellProps(itemIndex + 1, columnIndex + leadingColumnCount)}
+                          >
+                            {columnIndex === 0 ? (
+                              <button
+                                type="button"
+                                tabIndex={-1}
+                                className="flex items-center space-x-1 whitespace-nowrap text-left"
+                                onClick={() => toggleGroup(group.id)}
+                              >
+                                {isExpanded ? (
+                                  <ChevronDownIcon aria-hidden="true" className="h-4 w-4" />
+                                ) : (
+                                  <ChevronRightIcon aria-hidden="true" className="h-4 w-4" />
+                                )}
+                                <span>{getGroupLabel(group)}</span>
+                                <span className="font-normal text-gray-500 dark:text-gray-400">({group.rows.length})</span>
+                              </button>
+                            ) : (
+                              formatAggregate(column, group.rows)
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                }
+
+                const { row } = item;
+                if (item.type === 'detail') {
+                  return (
+                    <tr key={itemKey} {...rowProps} className={rowClasses}>
+                      <td
+                        colSpan={columnCount}
+                        className={twMerge('bg-gray-50 p-4 dark:bg-gray-800', focusClasses)}
+                        {...gridCellProps(itemIndex + 1, 0)}
+                      >
+                        {renderRowDetail?.(row)}
+                      </td>
+                    </tr>
+                  );
+                }
+
+                const rowId = itemRowIds[itemIndex] as RowId;
+                const rowIndex = itemRowIndexes[itemIndex] as number;
+                const isSelected = selection.isSelected(rowId);
+                const isDetailOpen = openDetails.has(rowId);
+                const { isParent, isExpanded: isRowExpanded, isChecked, isIndeterminate } = getRowState(row, rowId);
+                return (
+                  <tr
+                    key={itemKey}
+                    {...rowProps}
+                    aria-selected={selectable ? isSelected : undefined}
+                    aria-expanded={isParent ? isRowExpanded : undefined}
+                    className={twMerge(
+                      rowClasses,
+                      selectable ? 'cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors' : '',
+                      isSelected ? 'bg-blue-100 dark:bg-blue-900' : ''
+                    )}
+                    onClick={selectable ? (event) => handleToggleRow(rowId, event.shiftKey) : undefined}
+                    // Keep shift-click from selecting the page's text.
+                    onMouseDown={selectable ? (event) => event.shiftKey && event.preventDefault() : undefined}
+                  >
+                    {selectable && (
+                      <td
+                        className={twMerge('p-4', focusClasses, hasLeftPins ? pinnedCellClasses(isSelected) : '')}
+                        style={pinnedStyles[selectionColumnKey]}
+                        {...gridCellProps(itemIndex + 1, 0)}
+                      >
+                        <SelectionCheckbox
+                          tabIndex={-1}
+                          aria-label="Select row"
+                          checked={isChecked}
+                          indeterminate={isIndeterminate}
+                          // Don't let the row's click handler toggle the row a second time.
+                          onClick={(event) => event.stopPropagation()}
+                          onChange={(event) => {
+                            const { nativeEvent } = event;
+                            handleToggleRow(rowId, 'shiftKey' in nativeEvent && nativeEvent.shiftKey === true);
+                          }}
+                        />
+                      </td>
+                    )}
+                    {hasRowDetail && (
+                      <td
+                        className={twMerge('p-4', focusClasses, hasLeftPins ? pinnedCellClasses(isSelected) : '')}
+                        style={pinnedStyles[expanderColumnKey]}
+                        {...gridCellProps(itemIndex + 1, expanderColumnIndex)}
+                      >
+                        <button
+                          type="button"
+                          tabIndex={-1}
+                          aria-expanded={isDetailOpen}
+                          aria-label={isDetailOpen ? 'Hide details' : 'Show details'}
+                          className="rounded p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700"
+                          onClick={(event) => {
+                            // Don't let the row's click handler select the row.
+                            event.stopPropagation();
+                            toggleDetail(rowId);
+                          }}
+                        >
+                          {isDetailOpen ? (
+                            <ChevronDownIcon aria-hidden="true" className="h-4 w-4" />
+                          ) : (
+                            <ChevronRightIcon aria-hidden="true" className="h-4 w-4" />
+                          )}
+                        </button>
+                      </td>
+                    )}
+                    {displayColumns.map((column, columnIndex) => {
+                      const key = String(column.key);
+                      const editable = isCellEditable(column, row);
+                      return (
+                        <td
+                          key={key}
+                          className={twMerge(
+                            'p-4',
+                            focusClasses,
+                            alignClasses[column.align ?? 'left'],
+                            editable ? 'cursor-text' : '',
+                            pins[key] ? pinnedCellClasses(isSelected) : '',
+                            column.className
+                          )}
+                          style={{ ...pinnedStyles[key], ...(columnIndex === 0 ? indentStyle(item.depth) : {}) }}
+                          aria-readonly={editable ? undefined : onCellEdit ? true : undefined}
+                          onDoubleClick={editable ? () => editing.start({ rowId, column, row }) : undefined}
+                          {...gridCellProps(itemIndex + 1, columnIndex + leadingColumnCount)}
+                        >
+                          {tree && columnIndex === 0 ? (
+                            <div className="flex items-center space-x-1">
+                              {isParent ? (
+                                <button
+                                  type="button"
+                                  tabIndex={-1}
+                                  aria-label={isRowExpanded ? 'Collapse row' : 'Expand row'}
+                                  className="rounded p-0.5 hover:bg-gray-200 disabled:opacity-50 dark:hover:bg-gray-700"
+                                  // Every parent stays open while filtering.
+                                  disabled={isFiltered}
+                                  onClick={(event) => {
+                                    event.stopPropagation();
+                                    toggleExpanded(rowId);
+                                  }}
+                                >
+                                  {isRowExpanded ? (
+                                    <ChevronDownIcon aria-hidden="true" className="h-4 w-4" />
+                                  ) : (
+                                    <ChevronRightIcon aria-hidden="true" className="h-4 w-4" />
+                                  )}
+                                </button>
+                              ) : (
+                                <span aria-hidden="true" className="inline-block h-5 w-5" />
+                              )}
+                              <div className="min-w-0 flex-1">{renderCell(column, row, rowId, rowIndex)}</div>
+                            </div>
+                          ) : (
+                            renderCell(column, row, rowId, rowIndex)
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              {/* Tell the user when there are no rows, or the filters hide every row */}
+              {showEmptyState && (
+                <tr>
+                  <td colSpan={columnCount} className={emptyStateClasses}>
+                    {emptyState}
+                  </td>
+                </tr>
               )}
-              {columns.map((column) => (
-                <td key={column.key as string} className="p-4">
-                  {String(row[column.key])}
-                </td>
-              ))}
-            </tr>
-          ))}
-        </tbody>
-      </table>
+              {/* Reserve the space of the rows below the viewport */}
+              {virtualized && virtual.paddingBottom > 0 && (
+                <tr aria-hidden="true" style={{ height: virtual.paddingBottom }}>
+                  <td colSpan={columnCount} className="p-0" />
+                </tr>
+              )}
+            </tbody>
+            {/* Summarize every row in view */}
+            {showFooter && (
+              <tfoot>
+                <tr className="border-t-2 border-gray-300 font-semibold dark:border-gray-600">
+                  {selectable && <td className={twMerge('p-4', hasLeftPins ? pinnedHeaderClasses : '')} style={pinnedStyles[selectionColumnKey]} />}
+                  {hasRowDetail && <td className={twMerge('p-4', hasLeftPins ? pinnedHeaderClasses : '')} style={pinnedStyles[expanderColumnKey]} />}
+                  {displayColumns.map((column, columnIndex) => {
+                    const key = String(column.key);
+                    return (
+                      <td
+                        key={key}
+                        className={twMerge('p-4', alignClasses[column.align ?? 'left'], pins[key] ? pinnedHeaderClasses : '')}
+                        style={pinnedStyles[key]}
+                      >
+                        {column.aggregate ? footerAggregates.get(column) : columnIndex === 0 ? 'Total' : null}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+      {/* Render page navigation */}
+      {isPaginated && (
+        <DataTablePagination
+          page={currentPage}
+          pageSize={pageSize}
+          total={totalRows}
+          pageSizeOptions={pageSizeOptions}
+          onChange={changePage}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,324 @@
+// Form state, validation and submission for forms built from InputFields.
+import React, { useCallback, useRef, useState } from 'react';
+
+// Returned by a validator: an error message, or nothing when valid.
+export type FieldValidationResult = string | null | undefined;
+
+// Checks one field's value. It also receives every value, to compare fields.
+export type FieldValidator<V, Values> = (
+  value: V,
+  values: Values
+) => FieldValidationResult | Promise<FieldValidationResult>;
+
+// Error messages keyed by field name.
+export type FormErrors<Values> = Partial<Record<keyof Values, string>>;
+
+// Checks the whole form and returns the errors of any invalid fields.
+export type FormValidator<Values> = (values: Values) => FormErrors<Values> | Promise<FormErrors<Values>>;
+
+// When fields are validated.
+// change: On every change.
+// blur: When the field loses focus, then on every change once it has been visited.
+// submit: On submit, then on every change once the form has been submitted.
+export type ValidationMode = 'change' | 'blur' | 'submit';
+
+// The names of fields with string values, which can be bound to an InputField.
+export type TextFieldName<Values> = {
+  [K in keyof Values]: Values[K] extends string ? K : never;
+}[keyof Values] &
+  string;
+
+// Define the hook's options.
+// initialValues: The starting values. Their types type every field.
+// validators: Field validators, by field name.
+// validate: A form validator, for rules that involve several fields.
+// validateOn: When fields are validated. Defaults to 'blur'. The whole form
+//   is always validated on submit.
+// onSubmit: Called with the values when a submitted form is valid. Return a
+//   promise to keep the form submitting until it settles; if it rejects,
+//   the error is shown above the form.
+export interface UseFormOptions<Values> {
+  initialValues: Values;
+  validators?: { [K in keyof Values]?: FieldValidator<Values[K], Values> };
+  validate?: FormValidator<Values>;
+  validateOn?: ValidationMode;
+  onSubmit: (values: Values) => void | Promise<void>;
+}
+
+// The props register() returns for an InputField.
+export interface FieldProps {
+  ref: (element: HTMLInputElement | null) => void;
+  name: string;
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+  invalid: boolean;
+  errorMessage?: string;
+}
+
+// Options for a single registered field.
+// validate: A validator for this field, used instead of the one in `validators`.
+export interface RegisterOptions<V, Values> {
+  validate?: FieldValidator<V, Values>;
+}
+
+// The state and actions returned by useForm.
+// errors: The current error of each field, shown once the field has been
+//   visited or the form submitted.
+// touched: The fields that have lost focus at least once.
+// isDirty: Whether any value differs from the initial values.
+// isValidating: Whether an asynchronous validator is running.
+// submitError: The error the last submission failed with, or null.
+export interface FormApi<Values> {
+  values: Values;
+  errors: FormErrors<Values>;
+  touched: Partial<Record<keyof Values, boolean>>;
+  isDirty: boolean;
+  isSubmitting: boolean;
+  isValidating: boolean;
+  submitCount: number;
+  submitError: unknown;
+  register: <K extends TextFieldName<Values>>(name: K, options?: RegisterOptions<Values[K], Values>) => FieldProps;
+  setValue: <K extends keyof Values>(name: K, value: Values[K]) => void;
+  setError: (name: keyof Values, message: string | undefined) => void;
+  validate: () => Promise<boolean>;
+  handleSubmit: (event?: React.FormEvent) => Promise<void>;
+  reset: (values?: Values) => void;
+}
+
+// Read a message from a validator that threw.
+const toMessage = (reason: unknown) => (reason instanceof Error ? reason.message : 'Validation failed.');
+
+/**
+ * Manages a form's values, validation and submission. Bind text fields with
+ * `{...form.register('name')}` and pass the result to the Form component.
+ * @param {UseFormOptions<Values>} options - The initial values, validators and submit handler.
+ * @returns {FormApi<Values>} The form state and actions.
+ */
+export const useForm = <Values extends object>({
+  initialValues,
+  validators,
+  validate: validateForm,
+  validateOn = 'blur',
+  onSubmit,
+}: UseFormOptions<Values>): FormApi<Values> => {
+  const [values, setValues] = useState(initialValues);
+  const [errors, setErrors] = useState<FormErrors<Values>>({});
+  const [touched, setTouched] = useState<Partial<Record<keyof Values, boolean>>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingValidations, setPendingValidations] = useState(0);
+  const [submitCount, setSubmitCount] = useState(0);
+  const [submitError, setSubmitError] = useState<unknown>(null);
+
+  // Read the latest state from callbacks that outlive a render, such as
+  // async validators.
+  const initial = useRef(initialValues);
+  const latest = useRef({ values, touched, submitCount });
+  latest.current = { values, touched, submitCount };
+  // Each field's latest validation run; older runs are ignored when they settle.
+  const validationRuns = useRef(new Map<keyof Values, number>());
+  const fieldValidators = useRef(new Map<keyof Values, FieldValidator<unknown, Values>>());
+  const fieldElements = useRef(new Map<keyof Values, HTMLInputElement>());
+  // Set as soon as a submit starts, so a second submit before the next
+  // render is ignored.
+  const submitting = useRef(false);
+
+  const getFieldValidator = (name: keyof Values) =>
+    fieldValidators.current.get(name) ?? (validators?.[name] as FieldValidator<unknown, Values> | undefined);
+
+  // Works out a field's error: its own validator first, then the form validator.
+  const runFieldValidation = async (name: keyof Values, current: Values): Promise<string | undefined> => {
+    const validator = getFieldValidator(name);
+    try {
+      const message = validator ? await validator(current[name], current) : undefined;
+      if (message) {
+        return message;
+      }
+      return validateForm ? (await validateForm(current))[name] || undefined : undefined;
+    } catch (reason) {
+      return toMessage(reason);
+    }
+  };
+
+  const setError = useCallback((name: keyof Values, message: string | undefined) => {
+    setErrors((current) => {
+      const next = { ...current };
+      if (message) {
+        next[name] = message;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  }, []);
+
+  const validateField = async (name: keyof Values, current: Values) => {
+    const run = (validationRuns.current.get(name) ?? 0) + 1;
+    validationRuns.current.set(name, run);
+    setPendingValidations((count) => count + 1);
+    const message = await runFieldValidation(name, current);
+    setPendingValidations((count) => count - 1);
+    if (validationRuns.current.get(name) === run) {
+      setError(name, message);
+    }
+  };
+
+  // Validates every field and shows the errors. Resolves to the errors, or
+  // null when the form validator itself failed.
+  const validateAll = async (): Promise<FormErrors<Values> | null> => {
+    const current = latest.current.values;
+    const names = Object.keys(current) as (keyof Values)[];
+    // Supersede any field validation still running.
+    names.forEach((name) => validationRuns.current.set(name, (validationRuns.current.get(name) ?? 0) + 1));
+    setPendingValidations((count) => count + 1);
+    try {
+      const [formErrors, fieldErrors] = await Promise.all([
+        validateForm ? validateForm(current) : ({} as FormErrors<Values>),
+        Promise.all(
+          names.map(async (name) => {
+            const validator = getFieldValidator(name);
+            try {
+              return validator ? await validator(current[name], current) : undefined;
+            } catch (reason) {
+              return toMessage(reason);
+            }
+          })
+        ),
+      ]);
+      const next: FormErrors<Values> = {};
+      names.forEach((name, index) => {
+        const message = fieldErrors[index] || formErrors[name];
+        if (message) {
+          next[name] = message;
+        }
+      });
+      setErrors(next);
+      return next;
+    } catch (reason) {
+      // A form validator that throws fails the form rather than a field.
+      setSubmitError(reason);
+      return null;
+    } finally {
+      setPendingValidations((count) => count - 1);
+    }
+  };
+
+  const validate = async () => {
+    const result = await validateAll();
+    return result !== null && Object.keys(result).length === 0;
+  };
+
+  const setValue = <K extends keyof Values>(name: K, value: Values[K]) => {
+    const next = { ...latest.current.values, [name]: value };
+    latest.current.values = next;
+    setValues(next);
+    const { touched: visited, submitCount: submissions } = latest.current;
+    const shouldValidate =
+      validateOn === 'change' ||
+      (validateOn === 'blur' && (visited[name] || submissions > 0)) ||
+      (validateOn === 'submit' && submissions > 0);
+    if (shouldValidate) {
+      void validateField(name, next);
+    }
+  };
+
+  const handleBlur = (name: keyof Values) => {
+    setTouched((current) => (current[name] ? current : { ...current, [name]: true }));
+    if (validateOn === 'blur' || (validateOn === 'change' && !latest.current.touched[name])) {
+      void validateField(name, latest.current.values);
+    }
+  };
+
+  const register = <K extends TextFieldName<Values>>(
+    name: K,
+    options?: RegisterOptions<Values[K], Values>
+  ): FieldProps => {
+    if (options?.validate) {
+      fieldValidators.current.set(name, options.validate as FieldValidator<unknown, Values>);
+    } else {
+      fieldValidators.current.delete(name);
+    }
+    const error = errors[name];
+    const isShown = Boolean(error) && (Boolean(touched[name]) || submitCount > 0 || validateOn === 'change');
+    return {
+      ref: (element) => {
+        if (element) {
+          fieldElements.current.set(name, element);
+        } else {
+          fieldElements.current.delete(name);
+        }
+      },
+      name,
+      value: values[name] as string,
+      onChange: (event) => setValue(name, event.target.value as Values[K]),
+      onBlur: () => handleBlur(name),
+      invalid: isShown,
+      errorMessage: isShown ? error : undefined,
+    };
+  };
+
+  const handleSubmit = async (event?: React.FormEvent) => {
+    event?.preventDefault();
+    if (submitting.current) {
+      return;
+    }
+    submitting.current = true;
+    setSubmitCount((count) => count + 1);
+    latest.current.submitCount++;
+    setSubmitError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await validateAll();
+      if (result === null) {
+        return;
+      }
+      const invalidNames = Object.keys(result) as (keyof Values)[];
+      if (invalidNames.length > 0) {
+        // Move focus to the first invalid field, in the order of the values.
+        const firstInvalid = invalidNames.find((name) => fieldElements.current.has(name));
+        if (firstInvalid !== undefined) {
+          fieldElements.current.get(firstInvalid)?.focus();
+        }
+        return;
+      }
+      await onSubmit(latest.current.values);
+    } catch (reason) {
+      setSubmitError(reason);
+    } finally {
+      submitting.current = false;
+      setIsSubmitting(false);
+    }
+  };
+
+  const reset = (nextValues: Values = initial.current) => {
+    initial.current = nextValues;
+    latest.current.values = nextValues;
+    validationRuns.current.clear();
+    setValues(nextValues);
+    setErrors({});
+    setTouched({});
+    setSubmitCount(0);
+    setSubmitError(null);
+  };
+
+  const isDirty = (Object.keys(values) as (keyof Values)[]).some(
+    (name) => !Object.is(values[name], initial.current[name])
+  );
+
+  return {
+    values,
+    errors,
+    touched,
+    isDirty,
+    isSubmitting,
+    isValidating: pendingValidations > 0,
+    submitCount,
+    submitError,
+    register,
+    setValue,
+    setError,
+    validate,
+    handleSubmit,
+    reset,
+  };
+};
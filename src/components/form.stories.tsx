@@ -0,0 +1,96 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { Button } from '@/components/ui/button';
+import InputField from './inputfield.tsx';
+import { Form } from './form.tsx';
+import { useForm } from './form-state.ts';
+
+// This is the metadata for your component.
+const meta: Meta<typeof Form> = {
+  title: 'Components/Form',
+  component: Form,
+  tags: ['autodocs'],
+};
+
+export default meta;
+
+// This defines the type for your stories.
+type Story = StoryObj<typeof Form>;
+
+interface SignUpValues {
+  email: string;
+  password: string;
+  confirmPassword: string;
+  company: string;
+}
+
+// Simulate a server that takes a moment to answer.
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const SignUpForm = () => {
+  const form = useForm<SignUpValues>({
+    initialValues: { email: '', password: '', confirmPassword: '', company: '' },
+    validators: {
+      email: async (value) => {
+        if (!/^\S+@\S+\.\S+$/.test(value)) {
+          return 'Enter a valid email address.';
+        }
+        await wait(500);
+        return value.startsWith('taken@') ? 'This email is already registered.' : undefined;
+      },
+      password: (value) => (value.length < 8 ? 'Use at least 8 characters.' : undefined),
+    },
+    validate: (values) =>
+      values.confirmPassword !== values.password ? { confirmPassword: 'The passwords do not match.' } : {},
+    onSubmit: async (values) => {
+      await wait(800);
+      if (values.company.toLowerCase() === 'acme') {
+        throw new Error('The server rejected the request. Try again later.');
+      }
+      alert(`Signed up as ${values.email}`);
+    },
+  });
+
+  return (
+    <Form form={form} className="max-w-md">
+      <InputField
+        type="email"
+        label="Email"
+        autoComplete="email"
+        required
+        helperText="Try taken@example.com."
+        loading={form.isValidating && !form.isSubmitting}
+        {...form.register('email')}
+      />
+      <InputField type="password" label="Password" autoComplete="new-password" required {...form.register('password')} />
+      <InputField
+        type="password"
+        label="Confirm password"
+        autoComplete="new-password"
+        required
+        {...form.register('confirmPassword')}
+      />
+      <InputField
+        label="Company"
+        optional
+        helperText="Enter Acme to see a failed submission."
+        {...form.register('company')}
+      />
+      <div className="flex space-x-2">
+        <Button type="submit" loading={form.isSubmitting}>
+          Sign up
+        </Button>
+        <Button type="button" variant="outline" disabled={!form.isDirty || form.isSubmitting} onClick={() => form.reset()}>
+          Reset
+        </Button>
+      </div>
+    </Form>
+  );
+};
+
+/**
+ * A story demonstrating a sign-up form: an async email check, a rule that
+ * compares two fields and a submission that can fail.
+ */
+export const SignUp: Story = {
+  render: () => <SignUpForm />,
+};
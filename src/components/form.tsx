@@ -0,0 +1,56 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { FormApi } from './form-state.ts';
+
+// Define the form's props. Other native form attributes are passed to the <form>.
+// form: The state returned by useForm.
+// submitErrorTitle: The title of the alert shown when submitting fails.
+export interface FormProps<Values> extends Omit<React.FormHTMLAttributes<HTMLFormElement>, 'onSubmit'> {
+  form: FormApi<Values>;
+  submitErrorTitle?: string;
+}
+
+// Reads a message to show from a submission error of any type.
+const getSubmitErrorMessage = (error: unknown): string => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return typeof error === 'string' && error ? error : 'Something went wrong. Please try again.';
+};
+
+/**
+ * A form wired to useForm: submitting validates every field and calls the
+ * submit handler, and a failed submission is shown in an alert above the
+ * fields. Browser validation bubbles are turned off in favour of the
+ * fields' own error messages.
+ * @param {FormProps<Values>} props - The props for the component.
+ * @returns {JSX.Element} The rendered form.
+ */
+export const Form = <Values,>({
+  form,
+  submitErrorTitle = "Couldn't submit the form",
+  children,
+  ...props
+}: FormProps<Values>): JSX.Element => (
+  <form noValidate aria-busy={form.isSubmitting} onSubmit={(event) => void form.handleSubmit(event)} {...props}>
+    {form.submitError !== null && form.submitError !== undefined && (
+      <Alert variant="critical" className="mb-4">
+        <AlertTitle>{submitErrorTitle}</AlertTitle>
+        <AlertDescription>{getSubmitErrorMessage(form.submitError)}</AlertDescription>
+      </Alert>
+    )}
+    {children}
+  </form>
+);
+
+export type {
+  FieldProps,
+  FieldValidationResult,
+  FieldValidator,
+  FormApi,
+  FormErrors,
+  FormValidator,
+  RegisterOptions,
+  UseFormOptions,
+  ValidationMode,
+} from './form-state.ts';
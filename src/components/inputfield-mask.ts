@@ -0,0 +1,412 @@
+// Input masks for the InputField: the rules that turn typed text into a
+// formatted value and back. Everything here is a pure function, so masks
+// can be tested without rendering.
+
+// How an InputField formats what is typed.
+// pattern: A fixed layout. In `pattern`, 9 takes a digit, a a letter and * a
+//   letter or digit; every other character is inserted as is, e.g.
+//   '(999) 999-9999'.
+// number / currency: A number formatted with Intl.NumberFormat as it is
+//   typed, e.g. 1,234.5. `allowNegative` defaults to true. Options that
+//   would show other digits than the ones typed are ignored: percent style,
+//   notation and significant digits. Digits are always 0-9.
+// date: A date in the given order of day, month and year, with the
+//   separator between them. A month or day digit that can't start a
+//   two-digit part is padded with a zero, e.g. 2 becomes 02, and
+//   impossible months and days can't be typed.
+export type InputMask =
+  | { type: 'pattern'; pattern: string }
+  | { type: 'number'; locale?: string; options?: Intl.NumberFormatOptions; allowNegative?: boolean }
+  | { type: 'currency'; currency: string; locale?: string; options?: Intl.NumberFormatOptions; allowNegative?: boolean }
+  | { type: 'date'; format?: DateMaskFormat };
+
+// The supported date layouts.
+export type DateMaskFormat = 'yyyy-mm-dd' | 'mm/dd/yyyy' | 'dd/mm/yyyy' | 'dd.mm.yyyy';
+
+// The result of masking some text.
+// formatted: The text to show in the field.
+// raw: The value without formatting: the characters typed into a pattern or
+//   date, or a plain number such as -1234.5.
+// complete: Whether every slot of a pattern or date is filled. Always true
+//   for numbers.
+// caret: Where the caret goes in the formatted text.
+export interface MaskResult {
+  formatted: string;
+  raw: string;
+  complete: boolean;
+  caret: number;
+}
+
+// Common masks.
+export const phoneMask: InputMask = { type: 'pattern', pattern: '(999) 999-9999' };
+export const creditCardMask: InputMask = { type: 'pattern', pattern: '9999 9999 9999 9999' };
+export const isoDateMask: InputMask = { type: 'date', format: 'yyyy-mm-dd' };
+
+const slotTests: Record<string, RegExp> = {
+  '9': /\d/,
+  a: /[a-z]/i,
+  '*': /[a-z\d]/i,
+};
+
+const isSlot = (char: string) => char in slotTests;
+
+// The index in a pattern just after its nth slot.
+const getSlotEnd = (pattern: string, count: number) => {
+  let seen = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    if (isSlot(pattern[index]) && ++seen === count) {
+      return index + 1;
+    }
+  }
+  return pattern.length;
+};
+
+/**
+ * Masks text with a pattern. Characters that don't fit the next slot are
+ * dropped, and literals are inserted before the slot that follows them.
+ * @param {string} pattern - The pattern, e.g. '(999) 999-9999'.
+ * @param {string} text - The text in the field.
+ * @param {number} caret - The caret position in `text`.
+ * @param {(raw: string, char: string) => string | null} fit - Adds a character to the raw value,
+ *   possibly with padding, or returns null to refuse it.
+ * @returns {MaskResult} The formatted text, raw value and new caret position.
+ */
+const maskPattern = (
+  pattern: string,
+  text: string,
+  caret: number,
+  fit: (raw: string, char: string) => string | null = (raw, char) => raw + char
+): MaskResult => {
+  // Read the raw characters, skipping literals that are already in place.
+  let raw = '';
+  let rawBeforeCaret = -1;
+  let slot = 0;
+  for (let index = 0; index < text.length && slot < pattern.length; index++) {
+    if (index === caret) {
+      rawBeforeCaret = raw.length;
+    }
+    const char = text[index];
+    while (slot < pattern.length && !isSlot(pattern[slot]) && pattern[slot] !== char) {
+      slot++;
+    }
+    if (slot >= pattern.length) {
+      break;
+    }
+    if (!isSlot(pattern[slot])) {
+      slot++;
+    } else if (slotTests[pattern[slot]].test(char)) {
+      const next = fit(raw, char);
+      if (next !== null) {
+        raw = next;
+        slot = getSlotEnd(pattern, raw.length);
+      }
+    }
+  }
+  if (rawBeforeCaret === -1) {
+    rawBeforeCaret = raw.length;
+  }
+
+  // Lay the raw characters out in the pattern. Literals are added only when
+  // a slot after them is filled, so deleting never gets stuck on one.
+  let formatted = '';
+  let placed = 0;
+  let newCaret = 0;
+  let slotCount = 0;
+  for (const char of pattern) {
+    if (isSlot(char)) {
+      slotCount++;
+      if (placed === raw.length) {
+        break;
+      }
+      formatted += raw[placed++];
+      if (placed === rawBeforeCaret) {
+        newCaret = formatted.length;
+      }
+    } else if (placed < raw.length) {
+      formatted += char;
+    }
+  }
+  if (rawBeforeCaret === 0) {
+    // Put the caret before the first slot, after any leading literals.
+    newCaret = raw.length > 0 ? pattern.search(/[9a*]/) : 0;
+  }
+  const totalSlots = [...pattern].filter(isSlot).length;
+  return { formatted, raw, complete: slotCount === totalSlots && raw.length === totalSlots, caret: newCaret };
+};
+
+// The order of the parts in each date layout, and their separator.
+const dateLayouts: Record<DateMaskFormat, { order: ('y' | 'm' | 'd')[]; separator: string }> = {
+  'yyyy-mm-dd': { order: ['y', 'm', 'd'], separator: '-' },
+  'mm/dd/yyyy': { order: ['m', 'd', 'y'], separator: '/' },
+  'dd/mm/yyyy': { order: ['d', 'm', 'y'], separator: '/' },
+  'dd.mm.yyyy': { order: ['d', 'm', 'y'], separator: '.' },
+};
+
+// The pattern a date layout is typed into, e.g. '9999-99-99'.
+const getDatePattern = (format: DateMaskFormat) => {
+  const { order, separator } = dateLayouts[format];
+  return order.map((part) => (part === 'y' ? '9999' : '99')).join(separator);
+};
+
+/**
+ * Masks text as a date. A digit is refused when it would make the month
+ * greater than 12 or the day greater than 31, unless padding makes it fit:
+ * 2 as the first digit of a month becomes 02, and 1 then 3 becomes month 01
+ * and a day starting with 3.
+ * @param {DateMaskFormat} format - The date layout.
+ * @param {string} text - The text in the field.
+ * @param {number} caret - The caret position in `text`.
+ * @returns {MaskResult} The formatted text, raw digits and new caret position.
+ */
+const maskDate = (format: DateMaskFormat, text: string, caret: number): MaskResult => {
+  const { order } = dateLayouts[format];
+  const limits = { y: 9999, m: 12, d: 31 };
+  const totalDigits = order.length * 2 + 2;
+  const isValid = (raw: string) => {
+    let offset = 0;
+    return raw.length <= totalDigits && order.every((part) => {
+      const length = part === 'y' ? 4 : 2;
+      const digits = raw.slice(offset, offset + length);
+      offset += length;
+      if (part === 'y' || digits === '') {
+        return true;
+      }
+      // A partial part is valid while some second digit could complete it.
+      const value = Number(digits.length === 1 ? `${digits}0` : digits);
+      return value <= limits[part] && !(digits.length === 2 && value === 0);
+    });
+  };
+  // Where each month and day starts in the raw digits.
+  const paddedStarts = new Set<number>();
+  order.reduce((offset, part) => {
+    if (part !== 'y') {
+      paddedStarts.add(offset);
+    }
+    return offset + (part === 'y' ? 4 : 2);
+  }, 0);
+  // Try the digit as typed, then with a zero before it when it starts a
+  // month or day, then with a zero before a month or day's only digit, so
+  // the typed digit starts the next part.
+  const fit = (raw: string, char: string) => {
+    const candidates = [raw + char];
+    if (paddedStarts.has(raw.length)) {
+      candidates.push(`${raw}0${char}`);
+    }
+    if (paddedStarts.has(raw.length - 1)) {
+      const padded = `${raw.slice(0, -1)}0${raw.slice(-1)}`;
+      candidates.push(padded + char);
+      if (paddedStarts.has(padded.length)) {
+        candidates.push(`${padded}0${char}`);
+      }
+    }
+    return candidates.find(isValid) ?? null;
+  };
+  return maskPattern(getDatePattern(format), text, caret, fit);
+};
+
+const getDecimalSeparator = (format: Intl.NumberFormat) =>
+  format.formatToParts(1.1).find((part) => part.type === 'decimal')?.value ?? '.';
+
+/**
+ * Builds the formatter for a number mask. The text must show the typed
+ * digits, so they can be read back on the next keystroke and match the raw
+ * value: the locale's digits are swapped for 0-9, and percent style (which
+ * multiplies by 100), notation and significant digits are dropped.
+ * @param {Extract<InputMask, { type: 'number' | 'currency' }>} mask - The number mask.
+ * @param {Intl.NumberFormatOptions} overrides - Options that replace the mask's, e.g. fraction digits.
+ * @returns {Intl.NumberFormat} The formatter.
+ */
+const getNumberFormat = (
+  mask: Extract<InputMask, { type: 'number' | 'currency' }>,
+  overrides: Intl.NumberFormatOptions = {}
+): Intl.NumberFormat => {
+  const options = mask.options ?? {};
+  const locale = new Intl.Locale(mask.locale ?? new Intl.NumberFormat().resolvedOptions().locale, {
+    numberingSystem: 'latn',
+  });
+  return new Intl.NumberFormat(locale.toString(), {
+    ...(mask.type === 'currency' ? { style: 'currency', currency: mask.currency } : {}),
+    ...options,
+    ...(options.style === 'percent' ? { style: 'decimal' } : {}),
+    notation: undefined,
+    minimumSignificantDigits: undefined,
+    maximumSignificantDigits: undefined,
+    ...overrides,
+  });
+};
+
+/**
+ * Masks text as a number or an amount of money, formatted as it is typed.
+ * A trailing decimal separator and trailing zeros are kept while typing.
+ * @param {Extract<InputMask, { type: 'number' | 'currency' }>} mask - The number mask.
+ * @param {string} text - The text in the field.
+ * @param {number} caret - The caret position in `text`.
+ * @returns {MaskResult} The formatted text, plain number and new caret position.
+ */
+const maskNumber = (
+  mask: Extract<InputMask, { type: 'number' | 'currency' }>,
+  text: string,
+  caret: number
+): MaskResult => {
+  const base = getNumberFormat(mask);
+  const decimal = getDecimalSeparator(base);
+  const maxFraction = base.resolvedOptions().maximumFractionDigits;
+  const allowNegative = mask.allowNegative !== false;
+
+  // Read the sign, the integer digits and the fraction digits. Characters
+  // that count towards the caret are digits, the separator and the sign.
+  let negative = false;
+  let integer = '';
+  let fraction: string | null = null;
+  let significantBeforeCaret = 0;
+  [...text].forEach((char, index) => {
+    const before = index < caret;
+    if (/\d/.test(char)) {
+      if (fraction === null) {
+        integer += char;
+      } else if (fraction.length < maxFraction) {
+        fraction += char;
+      } else {
+        return;
+      }
+    } else if (char === decimal && fraction === null) {
+      // Without fraction digits, e.g. for yen, the separator only ends the number.
+      fraction = '';
+      if (maxFraction === 0) {
+        return;
+      }
+    } else if (char === '-' && allowNegative && !negative && integer === '') {
+      negative = true;
+    } else {
+      return;
+    }
+    if (before) {
+      significantBeforeCaret++;
+    }
+  });
+  // Leading zeros are dropped, and do not count towards the caret.
+  const trimmed = integer.replace(/^0+(?=\d)/, '');
+  significantBeforeCaret = Math.max(0, significantBeforeCaret - (integer.length - trimmed.length));
+  integer = trimmed;
+
+  if (maxFraction === 0) {
+    fraction = null;
+  }
+  if (integer === '' && fraction === null) {
+    return { formatted: negative ? '-' : '', raw: negative ? '-' : '', complete: true, caret: negative ? 1 : 0 };
+  }
+  const digits = fraction ?? '';
+  const raw = `${negative ? '-' : ''}${integer || '0'}${fraction === null ? '' : `.${digits}`}`;
+  const formatter = getNumberFormat(mask, {
+    minimumFractionDigits: digits.length,
+    maximumFractionDigits: digits.length,
+  });
+  // A number loses digits past about 15, so take the layout (sign, symbol,
+  // separators) from it, but the digits from the text: the integer grouped
+  // as a bigint, which is exact, and the fraction as typed.
+  const integerParts = formatter
+    .formatToParts(BigInt(integer || '0'))
+    .filter((part) => part.type === 'integer' || part.type === 'group');
+  const parts = formatter.formatToParts(Number(raw)).flatMap((part, index, all) => {
+    if (part.type === 'fraction') {
+      return [{ ...part, value: digits }];
+    }
+    if (part.type !== 'integer' && part.type !== 'group') {
+      return [part];
+    }
+    // Replace the whole run of integer digits and group separators once.
+    const previous = all[index - 1]?.type;
+    return previous === 'integer' || previous === 'group' ? [] : integerParts;
+  });
+  // Keep a separator typed without digits after it.
+  if (fraction === '') {
+    const lastInteger = parts.map((part) => part.type).lastIndexOf('integer');
+    parts.splice(lastInteger + 1, 0, { type: 'decimal', value: decimal });
+  }
+
+  // Put the caret after the same number of significant characters.
+  let formatted = '';
+  let counted = 0;
+  let newCaret = significantBeforeCaret === 0 ? -1 : 0;
+  parts.forEach((part) => {
+    [...part.value].forEach((char) => {
+      formatted += char;
+      const isSignificant = ['integer', 'fraction', 'decimal', 'minusSign'].includes(part.type);
+      if (isSignificant && counted < significantBeforeCaret) {
+        counted++;
+        if (counted === significantBeforeCaret) {
+          newCaret = formatted.length;
+        }
+      }
+    });
+  });
+  if (newCaret === -1) {
+    // Nothing significant before the caret: put it before the first digit.
+    newCaret = Math.max(0, formatted.search(/\d/));
+  } else if (counted < significantBeforeCaret) {
+    newCaret = formatted.length;
+  }
+  return { formatted, raw, complete: true, caret: newCaret };
+};
+
+/**
+ * Applies a mask to the text in a field, keeping the caret after the same
+ * typed character it followed before formatting.
+ * @param {InputMask} mask - The mask to apply.
+ * @param {string} text - The text in the field, formatted or not.
+ * @param {number} caret - The caret position in `text`. Defaults to the end.
+ * @returns {MaskResult} The formatted text, raw value and new caret position.
+ */
+export const applyMask = (mask: InputMask, text: string, caret: number = text.length): MaskResult => {
+  switch (mask.type) {
+    case 'pattern':
+      return maskPattern(mask.pattern, text, caret);
+    case 'date':
+      return maskDate(mask.format ?? 'yyyy-mm-dd', text, caret);
+    default:
+      return maskNumber(mask, text, caret);
+  }
+};
+
+/**
+ * Moves the caret left past the formatting characters before it, such as
+ * the ') ' of a phone number or a group separator. Backspace then deletes a
+ * typed character instead of a separator the mask would put straight back.
+ * @param {InputMask} mask - The mask the text is formatted with.
+ * @param {string} formatted - The formatted text.
+ * @param {number} caret - The caret position.
+ * @returns {number} The caret position after any formatting characters are skipped.
+ */
+export const skipFormattingBefore = (mask: InputMask, formatted: string, caret: number): number => {
+  let isTyped: (index: number) => boolean;
+  if (mask.type === 'pattern' || mask.type === 'date') {
+    const pattern = mask.type === 'pattern' ? mask.pattern : getDatePattern(mask.format ?? 'yyyy-mm-dd');
+    isTyped = (index) => isSlot(pattern[index]);
+  } else {
+    const decimal = getDecimalSeparator(getNumberFormat(mask));
+    isTyped = (index) => /[\d-]/.test(formatted[index]) || formatted[index] === decimal;
+  }
+  let position = caret;
+  while (position > 0 && !isTyped(position - 1)) {
+    position--;
+  }
+  return position;
+};
+
+/**
+ * Picks the on-screen keyboard for a mask: a number pad for masks that
+ * only take digits.
+ * @param {InputMask} mask - The mask.
+ * @returns {'decimal' | 'numeric' | undefined} The inputMode, or undefined for the default keyboard.
+ */
+export const getMaskInputMode = (mask: InputMask): 'decimal' | 'numeric' | undefined => {
+  switch (mask.type) {
+    case 'number':
+    case 'currency':
+      return 'decimal';
+    case 'date':
+      return 'numeric';
+    default:
+      return /[a*]/.test(mask.pattern) ? undefined : 'numeric';
+  }
+};
@@ -1,149 +1,9 @@
 
-import React, { useState } from 'react';
+import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react';
-import { twMerge } from 'tailwind-merge';
-
-// Define the component's props based on your assignment brief
-interface InputFieldProps {
-  value?: string;
-  onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  label?: string;
-  placeholder?: string;
-  helperText?: string;
-  errorMessage?: string;
-  disabled?: boolean;
-  invalid?: boolean;
-  variant?: 'filled' | 'outlined' | 'ghost';
-  size?: 'sm' | 'md' | 'lg';
-  isPassword?: boolean;
-  isClearable?: boolean;
-}
-
-/**
- * A flexible and customizable InputField component.
- * It supports different variants, sizes, and states like disabled, invalid, and loading.
- * @param {InputFieldProps} props - The props for the component.
- * @returns {JSX.Element} The rendered InputField component.
- */
-const InputField: React.FC<InputFieldProps> = ({
-  value: controlledValue,
-  onChange,
-  label,
-  placeholder,
-  helperText,
-  errorMessage,
-  disabled,
-  invalid,
-  variant = 'outlined',
-  size = 'md',
-  isPassword = false,
-  isClearable = false,
-}) => {
-  // Use state for the input value and the password visibility
-  const [value, setValue] = useState(controlledValue || '');
-  const [showPassword, setShowPassword] = useState(false);
-
-  // Handle value changes for controlled and uncontrolled components
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setValue(e.target.value);
-    if (onChange) {
-      onChange(e);
-    }
-  };
-
-  // Handle clearing the input field
-  const handleClear = () => {
-    setValue('');
-    if (onChange) {
-      onChange({ target: { value: '' } } as React.ChangeEvent<HTMLInputElement>);
-    }
-  };
-
-  // Define base and conditional classes using Tailwind CSS
-  const baseClasses = 'w-full rounded-lg transition-all duration-200 focus:outline-none';
-
-  // Variant-based styles
-  const variantClasses = {
-    outlined: `bg-white dark:bg-gray-800 border-2 border-gray-300 focus:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-100' : ''}`,
-    filled: `bg-gray-100 dark:bg-gray-700 border-2 border-transparent focus:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-200 dark:bg-gray-800' : ''}`,
-    ghost: `bg-transparent dark:bg-transparent border-2 border-transparent focus:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-50 dark:bg-gray-800' : ''}`,
-  };
-
-  // Size-based padding and font styles
-  const sizeClasses = {
-    sm: 'p-2 text-sm',
-    md: 'p-3 text-base',
-    lg: 'p-4 text-lg',
-  };
-
-  const finalInputClasses = twMerge(
-    baseClasses,
-    variantClasses[variant],
-    sizeClasses[size],
-    invalid ? 'text-red-500 border-red-500' : '',
-    disabled ? 'text-gray-400 cursor-not-allowed' : '',
-    isPassword || isClearable ? 'pr-10' : '' // Add padding for icons
-  );
-
-  return (
-    <div className="flex flex-col mb-4 font-inter">
-      {/* Label */}
-      {label && (
-        <label className="block text-gray-700 text-sm font-semibold mb-1 dark:text-gray-300">
-          {label}
-        </label>
-      )}
-
-      {/* Input Field and Optional features wrapper */}
-      <div className="relative">
-        <input
-          type={isPassword && !showPassword ? 'password' : 'text'}
-          className={finalInputClasses}
-          value={value}
-          onChange={handleInputChange}
-          placeholder={placeholder}
-          disabled={disabled}
-        />
-
-        {/* Clear and Password Toggle Buttons */}
-        <div className="absolute right-0 top-1/2 -translate-y-1/2 flex items-center pr-3 space-x-2">
-          {isClearable && value && (
-            <button
-              type="button"
-              onClick={handleClear}
-              className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-400 transition-colors duration-200"
-              disabled={disabled}
-              aria-label="Clear input"
-            >
-              &times; {/* Using a simple multiplication symbol for the clear icon */}
-            </button>
-          )}
-
-          {isPassword && (
-            <button
-              type="button"
-              onClick={() => setShowPassword(!showPassword)}
-              className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-400 transition-colors duration-200"
-              disabled={disabled}
-              aria-label={showPassword ? "Hide password" : "Show password"}
-            >
-              {showPassword ? '🙈' : '👁️'} {/* Using emojis for the password toggle icons */}
-            </button>
-          )}
-        </div>
-      </div>
-
-      {/* Helper and Error Text */}
-      {invalid && errorMessage ? (
-        <p className="text-sm text-red-500 mt-1 dark:text-red-400">{errorMessage}</p>
-      ) : (
-        helperText && (
-          <p className="text-sm text-gray-500 mt-1 dark:text-gray-400">{helperText}</p>
-        )
-      )}
-    </div>
-  );
-};
+import { MailIcon, SearchIcon } from 'lucide-react';
+import InputField from './inputfield.tsx';
+import { creditCardMask, isoDateMask, phoneMask } from './inputfield-mask.ts';
 
 // This is the metadata for your component, defining its title and component
 const meta: Meta<typeof InputField> = {
@@ -151,20 +11,13 @@ const meta: Meta<typeof InputField> = {
   component: InputField,
   tags: ['autodocs'],
   argTypes: {
-    isPassword: {
-      control: 'boolean',
-      description: 'Enables a password toggle button.',
+    type: {
+      control: 'select',
+      options: ['text', 'email', 'number', 'search', 'tel', 'url', 'password', 'date'],
+      description: 'The input type. Password fields get a button to show the password.',
       table: {
-        type: { summary: 'boolean' },
-        defaultValue: { summary: 'false' },
-      },
-    },
-    isClearable: {
-      control: 'boolean',
-      description: 'Enables a button to clear the input value.',
-      table: {
-        type: { summary: 'boolean' },
-        defaultValue: { summary: 'false' },
+        type: { summary: 'InputFieldType' },
+        defaultValue: { summary: 'text' },
       },
     },
   },
@@ -219,6 +72,19 @@ export const Invalid: Story = {
   },
 };
 
+/**
+ * A story showing required and optional fields. The asterisk is visual only;
+ * screen readers announce the input's required state instead.
+ */
+export const RequiredAndOptional: Story = {
+  render: (args) => (
+    <div>
+      <InputField {...args} label="Full name" name="name" autoComplete="name" required />
+      <InputField {...args} label="Company" name="company" autoComplete="organization" optional />
+    </div>
+  ),
+};
+
 /**
  * A story showing the disabled state. The input field cannot be interacted with.
  */
@@ -234,22 +100,263 @@ export const Disabled: Story = {
  */
 export const PasswordWithToggle: Story = {
   args: {
+    type: 'password',
     label: 'Password',
     placeholder: 'Enter your password',
     helperText: 'Password must be at least 8 characters long.',
-    isPassword: true,
+    autoComplete: 'new-password',
   },
 };
 
 /**
- * A story demonstrating the clearable input feature.
+ * A story showing a search field with a starting value. The field is
+ * uncontrolled, so it keeps its own value as you type.
  */
-export const ClearableInput: Story = {
+export const SearchInput: Story = {
   args: {
+    type: 'search',
     label: 'Search',
     placeholder: 'Type to search...',
-    isClearable: true,
-    value: 'Initial value',
+    defaultValue: 'Initial value',
+  },
+};
+
+/**
+ * A story showing the other input types, which bring the matching mobile
+ * keyboards and browser validation.
+ */
+export const InputTypes: Story = {
+  render: (args) => (
+    <div>
+      <InputField {...args} type="email" label="Email" name="email" autoComplete="email" />
+      <InputField {...args} type="number" label="Quantity" name="quantity" min={1} />
+      <InputField {...args} type="tel" label="Phone" name="phone" autoComplete="tel" />
+      <InputField {...args} type="url" label="Website" name="website" placeholder="https://" />
+    </div>
+  ),
+};
+
+/**
+ * A story showing a controlled field: the value lives in the parent's state.
+ */
+export const Controlled: Story = {
+  render: (args) => {
+    const ControlledField = () => {
+      const [value, setValue] = useState('');
+      return (
+        <div>
+          <InputField {...args} value={value} onChange={(event) => setValue(event.target.value.toUpperCase())} />
+          <p className="text-sm text-gray-500">Stored value: {value || '(empty)'}</p>
+        </div>
+      );
+    };
+    return <ControlledField />;
+  },
+  args: {
+    label: 'Country code',
+    helperText: 'The parent turns the value into upper case.',
+  },
+};
+
+/**
+ * A story showing icons and units inside the field.
+ */
+export const Adornments: Story = {
+  render: (args) => (
+    <div>
+      <InputField {...args} type="email" label="Email" startAdornment={<MailIcon className="h-5 w-5" />} />
+      <InputField {...args} type="number" label="Weight" endAdornment="kg" />
+      <InputField {...args} type="url" label="Website" startAdornment="https://" endAdornment=".com" />
+    </div>
+  ),
+};
+
+/**
+ * A story showing adornments, the clear button and the spinner in every
+ * size and variant. The text is padded to clear them in all cases.
+ */
+export const AdornmentsInEverySize: Story = {
+  render: (args) => (
+    <div className="grid grid-cols-3 gap-4">
+      {(['outlined', 'filled', 'ghost'] as const).map((variant) =>
+        (['sm', 'md', 'lg'] as const).map((size) => (
+          <InputField
+            key={`${variant}-${size}`}
+            {...args}
+            variant={variant}
+            size={size}
+            label={`${variant} ${size}`}
+            defaultValue="A long value that reaches the end of the field"
+            startAdornment={<SearchIcon className="h-4 w-4" />}
+            endAdornment="units"
+            clearable
+            loading
+          />
+        ))
+      )}
+    </div>
+  ),
+};
+
+/**
+ * A story demonstrating the clear button, shown while the field has a value.
+ */
+export const Clearable: Story = {
+  args: {
+    type: 'search',
+    label: 'Search',
+    placeholder: 'Type to search...',
+    defaultValue: 'Initial value',
+    clearable: true,
+    startAdornment: <SearchIcon className="h-5 w-5" />,
+  },
+};
+
+/**
+ * A story demonstrating the character counter.
+ */
+export const CharacterCounter: Story = {
+  args: {
+    label: 'Display name',
+    helperText: 'Shown on your public profile.',
+    maxLength: 30,
+  },
+};
+
+/**
+ * A story demonstrating the loading spinner, e.g. while checking whether a
+ * username is taken.
+ */
+export const Loading: Story = {
+  args: {
+    label: 'Username',
+    defaultValue: 'ada',
+    loading: true,
+    helperText: 'Checking availability...',
+  },
+};
+
+/**
+ * A story demonstrating a phone number mask. Type or paste digits and the
+ * brackets, space and dash are added around them.
+ */
+export const PhoneMask: Story = {
+  args: {
+    label: 'Phone',
+    type: 'tel',
+    mask: phoneMask,
+    placeholder: '(555) 123-4567',
+  },
+};
+
+/**
+ * A story demonstrating a currency mask, which shows both the formatted
+ * text and the raw number a form would store.
+ */
+export const CurrencyMask: Story = {
+  render: (args) => {
+    const CurrencyField = () => {
+      const [amount, setAmount] = useState({ formatted: '', raw: '' });
+      return (
+        <div>
+          <InputField {...args} value={amount.formatted} onValueChange={setAmount} />
+          <p className="text-sm text-gray-500">Raw value: {amount.raw || '(empty)'}</p>
+        </div>
+      );
+    };
+    return <CurrencyField />;
+  },
+  args: {
+    label: 'Amount',
+    mask: { type: 'currency', currency: 'USD', locale: 'en-US' },
+  },
+};
+
+/**
+ * A story demonstrating number masks in other locales, which use their own
+ * group and decimal separators.
+ */
+export const LocalizedNumbers: Story = {
+  render: () => (
+    <div>
+      <InputField label="Betrag" mask={{ type: 'currency', currency: 'EUR', locale: 'de-DE' }} defaultValue="1234,5" />
+      <InputField label="金額" mask={{ type: 'currency', currency: 'JPY', locale: 'ja-JP' }} defaultValue="1234567" />
+      <InputField label="Quantity" mask={{ type: 'number', allowNegative: false }} defaultValue="1000000" />
+    </div>
+  ),
+};
+
+/**
+ * A story demonstrating number masks whose options would change the digits.
+ * Arabic (Egypt) normally writes Arabic-Indic digits, and percent style
+ * multiplies by 100; both fields show the digits as typed instead, so the
+ * text always matches the raw value.
+ */
+export const NumberMaskOptions: Story = {
+  render: () => {
+    const MaskedFields = () => {
+      const [amount, setAmount] = useState({ formatted: '', raw: '' });
+      const [rate, setRate] = useState({ formatted: '', raw: '' });
+      return (
+        <div>
+          <InputField
+            label="المبلغ"
+            mask={{ type: 'currency', currency: 'EGP', locale: 'ar-EG' }}
+            value={amount.formatted}
+            onValueChange={setAmount}
+          />
+          <p className="text-sm text-gray-500">Raw value: {amount.raw || '(empty)'}</p>
+          <InputField
+            label="Discount rate"
+            helperText="Percent style is ignored: 50 stays 50."
+            mask={{ type: 'number', options: { style: 'percent', maximumFractionDigits: 1 } }}
+            value={rate.formatted}
+            onValueChange={setRate}
+          />
+          <p className="text-sm text-gray-500">Raw value: {rate.raw || '(empty)'}</p>
+        </div>
+      );
+    };
+    return <MaskedFields />;
+  },
+};
+
+/**
+ * A story demonstrating date masks. Months over 12 and days over 31 can't
+ * be typed; a digit that can't start a month or day is padded instead,
+ * e.g. typing 4 in the month gives 04.
+ */
+export const DateMask: Story = {
+  render: () => (
+    <div>
+      <InputField label="Start date" mask={isoDateMask} placeholder="yyyy-mm-dd" />
+      <InputField label="Date of birth" mask={{ type: 'date', format: 'mm/dd/yyyy' }} placeholder="mm/dd/yyyy" />
+    </div>
+  ),
+};
+
+/**
+ * A story demonstrating a credit card mask that reports when the number is
+ * complete.
+ */
+export const CreditCardMask: Story = {
+  render: (args) => {
+    const CardField = () => {
+      const [complete, setComplete] = useState(false);
+      return (
+        <InputField
+          {...args}
+          onValueChange={(value) => setComplete(value.complete)}
+          helperText={complete ? 'Card number complete.' : 'Enter the 16 digits on the front of your card.'}
+        />
+      );
+    };
+    return <CardField />;
+  },
+  args: {
+    label: 'Card number',
+    mask: creditCardMask,
+    autoComplete: 'cc-number',
   },
 };
 
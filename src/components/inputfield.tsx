@@ -0,0 +1,315 @@
+import React, { useId, useImperativeHandle, useRef, useState } from 'react';
+import { EyeIcon, EyeOffIcon, Loader2Icon, XIcon } from 'lucide-react';
+import { twMerge } from 'tailwind-merge';
+import { applyMask, getMaskInputMode, InputMask, MaskResult, skipFormattingBefore } from './inputfield-mask.ts';
+
+export type { DateMaskFormat, InputMask, MaskResult } from './inputfield-mask.ts';
+
+// The input types the field supports.
+export type InputFieldType = 'text' | 'email' | 'number' | 'search' | 'tel' | 'url' | 'password' | 'date';
+
+// Define the component's props. Any other native input attribute, such as
+// name, autoComplete, onBlur or defaultValue, is passed to the <input>.
+// id: The input's id. Generated when omitted, to link the label and texts.
+// type: The input type. Password fields get a button to show the password.
+// value: The current value. Pass it with onChange to control the field, or
+//   use defaultValue and let the input keep its own value. With a mask, it
+//   is formatted for display, so digits without separators can be passed.
+// label: The visible label, linked to the input.
+// helperText: A hint shown under the field and read with the input.
+// errorMessage: Shown instead of the helper text when the field is invalid,
+//   and announced by screen readers when it appears or changes.
+// required: Marks the field as required, with an asterisk after the label.
+// optional: Adds "(optional)" after the label, for forms where most fields are required.
+// startAdornment / endAdornment: Content inside the field before or after
+//   the text, such as an icon or a unit. The text is padded to clear it.
+// clearable: Shows a button that empties the field while it has a value.
+//   onChange is called as if the user had deleted the text.
+// maxLength: Also shows a character counter under the field.
+// loading: Shows a spinner at the end of the field, e.g. while checking the value.
+// mask: Formats the text as it is typed or pasted, e.g. a phone number,
+//   amount or date, keeping the caret in place. Use with type 'text' or 'tel'.
+//   onChange receives the formatted text.
+// onValueChange: Called on each change with the formatted text, the raw
+//   value and whether the mask is complete.
+export interface InputFieldProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'type' | 'size' | 'value'> {
+  type?: InputFieldType;
+  value?: string;
+  label?: string;
+  helperText?: string;
+  errorMessage?: string;
+  invalid?: boolean;
+  optional?: boolean;
+  variant?: 'filled' | 'outlined' | 'ghost';
+  size?: 'sm' | 'md' | 'lg';
+  startAdornment?: React.ReactNode;
+  endAdornment?: React.ReactNode;
+  clearable?: boolean;
+  loading?: boolean;
+  mask?: InputMask;
+  onValueChange?: (value: Omit<MaskResult, 'caret'>) => void;
+}
+
+// Set an input's value the way typing does, so React calls onChange with a
+// real event in both controlled and uncontrolled mode.
+const setInputValue = (input: HTMLInputElement, value: string) => {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+  setValue?.call(input, value);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+/**
+ * A flexible and customizable InputField component.
+ * It supports different variants, sizes, and states like disabled, invalid
+ * and loading, with optional adornments, a clear button and a character counter.
+ * The ref is forwarded to the underlying <input>.
+ * @param {InputFieldProps} props - The props for the component.
+ * @returns {JSX.Element} The rendered InputField component.
+ */
+export const InputField = React.forwardRef<HTMLInputElement, InputFieldProps>(
+  (
+    {
+      id,
+      type = 'text',
+      value,
+      defaultValue,
+      onChange,
+      label,
+      helperText,
+      errorMessage,
+      disabled,
+      invalid,
+      required,
+      optional = false,
+      variant = 'outlined',
+      size = 'md',
+      startAdornment,
+      endAdornment,
+      clearable = false,
+      loading = false,
+      maxLength,
+      mask,
+      onValueChange,
+      onKeyDown,
+      inputMode,
+      className,
+      'aria-describedby': ariaDescribedBy,
+      ...inputProps
+    },
+    ref
+  ) => {
+    // Use state to track whether a password is shown as plain text.
+    const [isPasswordVisible, setIsPasswordVisible] = useState(false);
+    const isPassword = type === 'password';
+
+    // Keep our own handle on the input for the clear button, and give the
+    // same element to the caller's ref.
+    const inputRef = useRef<HTMLInputElement>(null);
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    // Track the text of an uncontrolled field too, for the counter and the
+    // clear button. The input itself stays uncontrolled.
+    const isControlled = value !== undefined;
+    const format = (text: string) => (mask ? applyMask(mask, text).formatted : text);
+    const [initialValue] = useState(() => (defaultValue === undefined ? undefined : format(String(defaultValue))));
+    const [uncontrolledValue, setUncontrolledValue] = useState(initialValue ?? '');
+    const currentValue = isControlled ? format(value) : uncontrolledValue;
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+      const input = event.target;
+      if (mask) {
+        // Format the text in place, then put the caret back after the
+        // character it followed. Inputs without a caret, such as type
+        // 'number', report a null selection.
+        const caret = input.selectionStart;
+        const result = applyMask(mask, input.value, caret ?? input.value.length);
+        if (input.value !== result.formatted) {
+          input.value = result.formatted;
+        }
+        if (caret !== null && document.activeElement === input) {
+          input.setSelectionRange(result.caret, result.caret);
+        }
+        onValueChange?.({ formatted: result.formatted, raw: result.raw, complete: result.complete });
+      } else {
+        onValueChange?.({ formatted: input.value, raw: input.value, complete: true });
+      }
+      if (!isControlled) {
+        setUncontrolledValue(event.target.value);
+      }
+      onChange?.(event);
+    };
+    // Backspace after a separator the mask inserted deletes the typed
+    // character before it, instead of a separator that would come straight back.
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      onKeyDown?.(event);
+      const input = event.currentTarget;
+      const caret = input.selectionStart;
+      if (mask && !event.defaultPrevented && event.key === 'Backspace' && caret !== null && caret === input.selectionEnd) {
+        const position = skipFormattingBefore(mask, input.value, caret);
+        if (position !== caret) {
+          input.setSelectionRange(position, position);
+        }
+      }
+    };
+    const handleClear = () => {
+      if (inputRef.current) {
+        setInputValue(inputRef.current, '');
+        inputRef.current.focus();
+      }
+    };
+    const showClear = clearable && currentValue !== '' && !disabled && !inputProps.readOnly;
+
+    // Link the label, hint, error and counter to the input by id.
+    const generatedId = useId();
+    const inputId = id ?? generatedId;
+    const helperId = `${inputId}-helper`;
+    const errorId = `${inputId}-error`;
+    const counterId = `${inputId}-counter`;
+    const showError = Boolean(invalid && errorMessage);
+    const showHelper = !showError && Boolean(helperText);
+    const showCounter = maxLength !== undefined;
+    const describedBy = [
+      ariaDescribedBy,
+      showError ? errorId : null,
+      showHelper ? helperId : null,
+      showCounter ? counterId : null,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    // The border and background sit on a wrapper that lays out the
+    // adornments and the input side by side, so text never runs under them.
+    const fieldClasses = 'flex w-full items-center rounded-lg transition-all duration-200';
+
+    // Variant-based styles
+    const variantClasses = {
+      outlined: `bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 focus-within:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-100 dark:bg-gray-900' : ''}`,
+      filled: `bg-gray-100 dark:bg-gray-700 border-2 border-transparent focus-within:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-200 dark:bg-gray-800' : ''}`,
+      ghost: `bg-transparent border-2 border-transparent focus-within:border-blue-500 ${invalid ? 'border-red-500' : ''} ${disabled ? 'bg-gray-50 dark:bg-gray-800' : ''}`,
+    };
+
+    // Size-based padding and font styles. Adornments take the padding on
+    // their side, and the input keeps a smaller gap next to them.
+    const sizeClasses = {
+      sm: { input: 'p-2 text-sm', start: 'pl-2', end: 'pr-2', gap: 'space-x-1', icon: 'h-4 w-4' },
+      md: { input: 'p-3 text-base', start: 'pl-3', end: 'pr-3', gap: 'space-x-2', icon: 'h-5 w-5' },
+      lg: { input: 'p-4 text-lg', start: 'pl-4', end: 'pr-4', gap: 'space-x-2', icon: 'h-6 w-6' },
+    };
+    const sizing = sizeClasses[size];
+
+    const hasStart = Boolean(startAdornment);
+    const hasEnd = Boolean(endAdornment) || loading || showClear || isPassword;
+
+    const finalInputClasses = twMerge(
+      'w-full min-w-0 flex-1 rounded-lg bg-transparent focus:outline-none dark:text-gray-100',
+      sizing.input,
+      hasStart ? 'pl-2' : '',
+      hasEnd ? 'pr-2' : '',
+      invalid ? 'text-red-500 dark:text-red-400' : '',
+      disabled ? 'text-gray-400 cursor-not-allowed dark:text-gray-500' : '',
+      className
+    );
+    const adornmentClasses = 'flex shrink-0 items-center text-gray-500 dark:text-gray-400';
+    const iconButtonClasses =
+      'flex items-center text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-400 transition-colors duration-200';
+
+    return (
+      <div className="flex flex-col mb-4 font-inter">
+        {/* Label */}
+        {label && (
+          <label htmlFor={inputId} className="block text-gray-700 text-sm font-semibold mb-1 dark:text-gray-300">
+            {label}
+            {/* The input's required attribute is announced, so the asterisk is only visual */}
+            {required && (
+              <span aria-hidden="true" className="ml-0.5 text-red-500 dark:text-red-400">
+                *
+              </span>
+            )}
+            {optional && !required && (
+              <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">(optional)</span>
+            )}
+          </label>
+        )}
+
+        {/* Input Field and Optional features wrapper */}
+        <div className={twMerge(fieldClasses, variantClasses[variant])}>
+          {hasStart && <div className={twMerge(adornmentClasses, sizing.start)}>{startAdornment}</div>}
+          <input
+            ref={inputRef}
+            id={inputId}
+            type={isPassword && isPasswordVisible ? 'text' : type}
+            className={finalInputClasses}
+            value={isControlled ? currentValue : undefined}
+            defaultValue={initialValue}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            inputMode={inputMode ?? (mask ? getMaskInputMode(mask) : undefined)}
+            maxLength={maxLength}
+            disabled={disabled}
+            required={required}
+            aria-invalid={invalid || undefined}
+            aria-busy={loading || undefined}
+            aria-describedby={describedBy || undefined}
+            {...inputProps}
+          />
+
+          {/* Adornment, spinner, clear button and password toggle */}
+          {hasEnd && (
+            <div className={twMerge(adornmentClasses, sizing.end, sizing.gap)}>
+              {endAdornment}
+              {loading && <Loader2Icon aria-hidden="true" className={twMerge('animate-spin', sizing.icon)} />}
+              {showClear && (
+                <button type="button" className={iconButtonClasses} onClick={handleClear} aria-label="Clear input">
+                  <XIcon aria-hidden="true" className={sizing.icon} />
+                </button>
+              )}
+              {isPassword && (
+                <button
+                  type="button"
+                  className={iconButtonClasses}
+                  onClick={() => setIsPasswordVisible(!isPasswordVisible)}
+                  disabled={disabled}
+                  aria-label={isPasswordVisible ? 'Hide password' : 'Show password'}
+                  aria-controls={inputId}
+                >
+                  {isPasswordVisible ? (
+                    <EyeOffIcon aria-hidden="true" className={sizing.icon} />
+                  ) : (
+                    <EyeIcon aria-hidden="true" className={sizing.icon} />
+                  )}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Helper and Error Text, and the character counter. The error sits
+            in a live region that is always rendered, so screen readers
+            announce it when it appears. */}
+        <div className="flex items-start justify-between space-x-2">
+          <div className="min-w-0">
+            <div aria-live="polite">
+              {showError && (
+                <p id={errorId} className="text-sm text-red-500 mt-1 dark:text-red-400">
+                  {errorMessage}
+                </p>
+              )}
+            </div>
+            {showHelper && (
+              <p id={helperId} className="text-sm text-gray-500 mt-1 dark:text-gray-400">
+                {helperText}
+              </p>
+            )}
+          </div>
+          {showCounter && (
+            <p id={counterId} className="shrink-0 text-sm tabular-nums text-gray-500 mt-1 dark:text-gray-400">
+              {currentValue.length}/{maxLength}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+);
+InputField.displayName = 'InputField';
+
+export default InputField;
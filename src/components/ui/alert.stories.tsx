@@ -1,17 +1,41 @@
 import { Meta, StoryObj } from "@storybook/react";
-import { Alert, AlertDescription, AlertTitle } from "./alert";
+import { SparklesIcon } from "lucide-react";
+import {
+  Alert,
+  AlertActions,
+  AlertDescription,
+  AlertTitle,
+  registerAlertVariant,
+  type AlertVariant,
+} from "./alert";
+import { Button } from "./button";
+
+// A custom variant, registered the way an app would, with its type declared.
+declare module "./alert" {
+  interface AlertVariantRegistry {
+    promo: true;
+  }
+}
+registerAlertVariant("promo", {
+  className:
+    "border-violet-500/30 bg-violet-500/10 text-violet-800 dark:border-violet-500/60 dark:text-violet-200 [&>svg]:text-violet-800 dark:[&>svg]:text-violet-200",
+  icon: SparklesIcon,
+  role: "status",
+});
 
 function AlertDemo({
   title,
   description,
   variant,
+  dismissible,
 }: {
   title: string;
   description: string;
-  variant: "informative" | "warning" | "critical";
+  variant: AlertVariant;
+  dismissible?: boolean;
 }) {
   return (
-    <Alert variant={variant}>
+    <Alert variant={variant} dismissible={dismissible}>
       <AlertTitle>{title}</AlertTitle>
       <AlertDescription>{description}</AlertDescription>
     </Alert>
@@ -29,7 +53,7 @@ const meta = {
     variant: {
       control: {
         type: "select",
-        options: ["informative", "warning", "critical"],
+        options: ["informative", "success", "warning", "critical", "neutral", "promo"],
       },
     },
   },
@@ -62,3 +86,62 @@ export const Critical = {
     variant: "critical",
   },
 };
+export const Dismissible = {
+  args: {
+    title: "Scheduled maintenance",
+    description: "The service will be unavailable on Sunday from 02:00 to 04:00 UTC.",
+    variant: "informative",
+    dismissible: true,
+  },
+};
+export const Success = {
+  args: {
+    title: "Payment received",
+    description: "Thanks! A receipt has been sent to your email address.",
+    variant: "success",
+  },
+};
+export const Neutral = {
+  args: {
+    title: "New version available",
+    description: "Reload the page to get the latest features.",
+    variant: "neutral",
+  },
+};
+export const WithActions: Story = {
+  args: { title: "", description: "", variant: "critical" },
+  render: () => (
+    <Alert variant="critical">
+      <AlertTitle>Couldn't save your changes</AlertTitle>
+      <AlertDescription>The server didn't respond in time.</AlertDescription>
+      <AlertActions>
+        <Button variant="outline" size="sm">
+          Retry
+        </Button>
+        <Button variant="link" size="sm">
+          Discard changes
+        </Button>
+      </AlertActions>
+    </Alert>
+  ),
+};
+export const DarkMode: Story = {
+  args: { title: "", description: "", variant: "informative" },
+  render: () => (
+    <div className="dark space-y-2 rounded-lg bg-gray-900 p-4">
+      {(["informative", "success", "warning", "critical", "neutral"] as const).map((variant) => (
+        <Alert key={variant} variant={variant}>
+          <AlertTitle className="capitalize">{variant}</AlertTitle>
+          <AlertDescription>Text and icon colors are readable on dark backgrounds.</AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  ),
+};
+export const CustomVariant = {
+  args: {
+    title: "Try the new editor",
+    description: "A registered variant with its own colors and icon.",
+    variant: "promo",
+  },
+};
@@ -1,52 +1,158 @@
 import * as React from "react";
-import { cva, type VariantProps } from "class-variance-authority";
 
 import { cn } from "@/lib/utils";
-import { Info, AlertTriangleIcon, XIcon } from "lucide-react";
+import { Info, AlertTriangleIcon, BellIcon, CheckCircle2Icon, XIcon } from "lucide-react";
 
-const alertVariants = cva(
-  "relative w-full rounded-lg border px-4 py-3 text-sm [&>svg+div]:translate-y-[-3px] [&>svg]:absolute [&>svg]:left-4 [&>svg]:top-4 [&>svg]:text-foreground [&>svg~*]:pl-7",
-  {
-    variants: {
-      variant: {
-        informative:
-          "border-blue-500/30 bg-blue-500/10 text-blue-800 dark:border-blue-500/60 [&>svg]:text-blue-800",
-        warning:
-          "border-amber-500/30 bg-amber-500/10 text-amber-800 dark:border-amber-500/60 [&>svg]:text-amber-800",
-        critical:
-          "border-red-500/30 bg-red-500/10 text-red-800 dark:border-red-500/60 [&>svg]:text-red-800",
-      },
+const alertBaseClasses =
+  "relative w-full rounded-lg border px-4 py-3 text-sm [&>svg+div]:translate-y-[-3px] [&>svg]:absolute [&>svg]:left-4 [&>svg]:top-4 [&>svg]:text-foreground [&>svg~*]:pl-7";
+
+// How an alert variant looks and is announced.
+// className: Colors for the border, background, text and icon, in light and dark mode.
+// icon: The icon shown before the content.
+// role: "alert" interrupts screen readers, for problems that need attention
+//   now; "status" is read when the user is idle.
+interface AlertVariantDefinition {
+  className: string;
+  icon: React.ComponentType<{ className?: string }>;
+  role: "alert" | "status";
+}
+
+// The names of the registered variants. Add your own with
+// registerAlertVariant and declare them here to use them with type checking:
+//   declare module "@/components/ui/alert" {
+//     interface AlertVariantRegistry { promo: true }
+//   }
+interface AlertVariantRegistry {
+  informative: true;
+  success: true;
+  warning: true;
+  critical: true;
+  neutral: true;
+}
+
+type AlertVariant = keyof AlertVariantRegistry;
+
+const alertVariants = new Map<string, AlertVariantDefinition>([
+  [
+    "informative",
+    {
+      className:
+        "border-blue-500/30 bg-blue-500/10 text-blue-800 dark:border-blue-500/60 dark:text-blue-200 [&>svg]:text-blue-800 dark:[&>svg]:text-blue-200",
+      icon: Info,
+      role: "status",
     },
-    defaultVariants: {
-      variant: "informative",
+  ],
+  [
+    "success",
+    {
+      className:
+        "border-green-500/30 bg-green-500/10 text-green-800 dark:border-green-500/60 dark:text-green-200 [&>svg]:text-green-800 dark:[&>svg]:text-green-200",
+      icon: CheckCircle2Icon,
+      role: "status",
     },
-  }
-);
+  ],
+  [
+    "warning",
+    {
+      className:
+        "border-amber-500/30 bg-amber-500/10 text-amber-800 dark:border-amber-500/60 dark:text-amber-200 [&>svg]:text-amber-800 dark:[&>svg]:text-amber-200",
+      icon: AlertTriangleIcon,
+      role: "alert",
+    },
+  ],
+  [
+    "critical",
+    {
+      className:
+        "border-red-500/30 bg-red-500/10 text-red-800 dark:border-red-500/60 dark:text-red-200 [&>svg]:text-red-800 dark:[&>svg]:text-red-200",
+      icon: XIcon,
+      role: "alert",
+    },
+  ],
+  [
+    "neutral",
+    {
+      className:
+        "border-gray-500/30 bg-gray-500/10 text-gray-800 dark:border-gray-500/60 dark:text-gray-200 [&>svg]:text-gray-800 dark:[&>svg]:text-gray-200",
+      icon: BellIcon,
+      role: "status",
+    },
+  ],
+]);
+
+/**
+ * Adds an alert variant, or replaces one, e.g. to change the icon of
+ * "critical" across an app. Call it once, before alerts render.
+ */
+function registerAlertVariant(name: AlertVariant, definition: AlertVariantDefinition) {
+  alertVariants.set(name, definition);
+}
+
+/**
+ * Reads a variant's definition, falling back to "informative" for names
+ * that were never registered.
+ */
+function getAlertVariant(name: AlertVariant): AlertVariantDefinition {
+  return alertVariants.get(name) ?? (alertVariants.get("informative") as AlertVariantDefinition);
+}
 
-const Icons = {
-  informative: Info,
-  warning: AlertTriangleIcon,
-  critical: XIcon,
+// variant: The registered variant. Defaults to "informative". The role is
+//   "alert" or "status" depending on the variant, unless one is passed.
+// icon: Replaces the variant's icon, e.g. with a spinner.
+// dismissible: Shows a close button. The alert hides itself when it is
+//   pressed, after calling onDismiss.
+// dismissLabel: The close button's accessible name.
+type AlertProps = React.HTMLAttributes<HTMLDivElement> & {
+  variant?: AlertVariant;
+  hasIcon?: boolean;
+  icon?: React.ReactNode;
+  dismissible?: boolean;
+  onDismiss?: () => void;
+  dismissLabel?: string;
 };
 
-const Alert = React.forwardRef<
-  HTMLDivElement,
-  React.HTMLAttributes<HTMLDivElement> &
-    VariantProps<typeof alertVariants> & { hasIcon?: boolean }
->(
+const Alert = React.forwardRef<HTMLDivElement, AlertProps>(
   (
-    { className, variant = "informative", hasIcon = true, children, ...props },
+    {
+      className,
+      variant = "informative",
+      hasIcon = true,
+      icon,
+      dismissible = false,
+      onDismiss,
+      dismissLabel = "Dismiss",
+      children,
+      ...props
+    },
     ref
   ) => {
-    const Icon = Icons[variant ?? "informative"];
+    const [isDismissed, setIsDismissed] = React.useState(false);
+    if (isDismissed) {
+      return null;
+    }
+    const { className: variantClassName, icon: Icon, role } = getAlertVariant(variant);
     return (
       <div
         ref={ref}
-        role="alert"
-        className={cn(alertVariants({ variant }), className)}
+        role={role}
+        className={cn(alertBaseClasses, variantClassName, dismissible && "pr-10", className)}
         {...props}
       >
-        {hasIcon && variant && <Icon className="w-4 h-4" />}
+        {/* Rendered before the icon, so the text indent for the icon skips it */}
+        {dismissible && (
+          <button
+            type="button"
+            className="absolute right-2 top-2 rounded-md p-1 opacity-70 transition-opacity hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-current"
+            onClick={() => {
+              onDismiss?.();
+              setIsDismissed(true);
+            }}
+            aria-label={dismissLabel}
+          >
+            <XIcon aria-hidden="true" className="w-4 h-4" />
+          </button>
+        )}
+        {hasIcon && (icon ?? <Icon className="w-4 h-4" />)}
         {children}
       </div>
     );
@@ -78,4 +184,25 @@ const AlertDescription = React.forwardRef<
 ));
 AlertDescription.displayName = "AlertDescription";
 
-export { Alert, AlertTitle, AlertDescription };
+// A row of actions under the alert's content, such as "Retry" or "Undo" buttons.
+const AlertActions = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => (
+  <div
+    ref={ref}
+    className={cn("mt-3 flex flex-wrap items-center gap-2", className)}
+    {...props}
+  />
+));
+AlertActions.displayName = "AlertActions";
+
+export {
+  Alert,
+  AlertTitle,
+  AlertDescription,
+  AlertActions,
+  registerAlertVariant,
+  getAlertVariant,
+};
+export type { AlertProps, AlertVariant, AlertVariantDefinition, AlertVariantRegistry };
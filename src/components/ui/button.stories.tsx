@@ -0,0 +1,87 @@
+import { Meta, StoryObj } from "@storybook/react";
+import { ArrowRightIcon, DownloadIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "./button";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const meta = {
+  title: "Button",
+  component: Button,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    variant: {
+      control: {
+        type: "select",
+        options: ["default", "destructive", "outline", "secondary", "ghost", "link"],
+      },
+    },
+    size: {
+      control: {
+        type: "select",
+        options: ["default", "sm", "lg", "icon"],
+      },
+    },
+  },
+} satisfies Meta<typeof Button>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  args: {
+    children: "Save changes",
+  },
+};
+
+export const Loading: Story = {
+  args: {
+    children: "Save changes",
+    loading: true,
+  },
+};
+
+export const WithIcons: Story = {
+  render: () => (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button size="sm" leftIcon={<PlusIcon />}>
+        New
+      </Button>
+      <Button variant="outline" leftIcon={<DownloadIcon />}>
+        Download
+      </Button>
+      <Button size="lg" rightIcon={<ArrowRightIcon />}>
+        Continue
+      </Button>
+      <Button size="icon" variant="destructive" leftIcon={<TrashIcon />} aria-label="Delete" />
+    </div>
+  ),
+};
+
+export const AutoLoading: Story = {
+  render: () => (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button autoLoading onClick={() => wait(1500)}>
+        Save
+      </Button>
+      <Button
+        autoLoading
+        variant="destructive"
+        onClick={() => wait(1500).then(() => Promise.reject(new Error("The server is not responding.")))}
+        onClickError={(error) => window.alert(error instanceof Error ? error.message : "Something went wrong.")}
+      >
+        Delete
+      </Button>
+      <Button
+        autoLoading
+        variant="outline"
+        onClick={() => wait(1500).then(() => Promise.reject(new Error("The server is not responding.")))}
+      >
+        Sync
+      </Button>
+    </div>
+  ),
+};
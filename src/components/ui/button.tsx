@@ -1,6 +1,7 @@
 import * as React from "react"
 import { Slot } from "@radix-ui/react-slot"
 import { cva, type VariantProps } from "class-variance-authority"
+import { Loader2Icon } from "lucide-react"
 
 import { cn } from "@/lib/utils"
 
@@ -33,21 +34,139 @@ const buttonVariants = cva(
   }
 )
 
+// Icon and spinner sizes for each button size.
+const iconSizes = {
+  default: "h-4 w-4",
+  sm: "h-4 w-4",
+  lg: "h-5 w-5",
+  icon: "h-4 w-4",
+}
+
+// Marks a button whose autoLoading onClick failed.
+const failedClasses = "ring-2 ring-destructive ring-offset-2"
+
+// loading: Shows a spinner over the label, keeping the button's width, and
+//   ignores clicks until it is turned off. Not supported with asChild.
+// leftIcon / rightIcon: Icons before and after the label, sized to match the button.
+// autoLoading: When onClick returns a promise, shows the spinner until it
+//   settles. A rejection is passed to onClickError. Without onClickError the
+//   button shows an error ring and data-error until it is clicked again.
 export interface ButtonProps
-  extends React.ButtonHTMLAttributes<HTMLButtonElement>,
+  extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "onClick">,
     VariantProps<typeof buttonVariants> {
   asChild?: boolean
+  loading?: boolean
+  leftIcon?: React.ReactNode
+  rightIcon?: React.ReactNode
+  autoLoading?: boolean
+  onClick?: (event: React.MouseEvent<HTMLButtonElement>) => unknown
+  onClickError?: (error: unknown) => void
 }
 
 const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
-  ({ className, variant, size, asChild = false, ...props }, ref) => {
-    const Comp = asChild ? Slot : "button"
+  (
+    {
+      className,
+      variant,
+      size,
+      asChild = false,
+      loading,
+      leftIcon,
+      rightIcon,
+      autoLoading = false,
+      onClick,
+      onClickError,
+      children,
+      ...props
+    },
+    ref
+  ) => {
+    const [isPending, setIsPending] = React.useState(false)
+    const [hasFailed, setHasFailed] = React.useState(false)
+    const isLoading = Boolean(loading) || isPending
+    const iconSize = iconSizes[size ?? "default"]
+
+    const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+      // Block repeat clicks, including repeat form submissions.
+      if (isLoading) {
+        event.preventDefault()
+        return
+      }
+      setHasFailed(false)
+      const result = onClick?.(event)
+      if (!autoLoading || !(result instanceof Promise)) {
+        return
+      }
+      setIsPending(true)
+      result.then(
+        () => setIsPending(false),
+        (error: unknown) => {
+          setIsPending(false)
+          if (onClickError) {
+            onClickError(error)
+          } else {
+            setHasFailed(true)
+          }
+        }
+      )
+    }
+
+    if (asChild) {
+      return (
+        <Slot
+          className={cn(buttonVariants({ variant, size, className }), hasFailed && failedClasses)}
+          ref={ref}
+          onClick={handleClick}
+          data-error={hasFailed || undefined}
+          {...props}
+        >
+          {children}
+        </Slot>
+      )
+    }
+
+    const iconClasses = cn("inline-flex shrink-0 [&>svg]:h-full [&>svg]:w-full", iconSize)
+    const content = (
+      <>
+        {leftIcon && (
+          <span aria-hidden="true" className={cn(iconClasses, children ? "mr-2" : "")}>
+            {leftIcon}
+          </span>
+        )}
+        {children}
+        {rightIcon && (
+          <span aria-hidden="true" className={cn(iconClasses, children ? "ml-2" : "")}>
+            {rightIcon}
+          </span>
+        )}
+      </>
+    )
+    // Buttons that can load keep their label in the layout, hidden under the
+    // spinner, so the width doesn't change and the name is still announced.
+    const canLoad = loading !== undefined || autoLoading
     return (
-      <Comp
-        className={cn(buttonVariants({ variant, size, className }))}
+      <button
+        className={cn(buttonVariants({ variant, size, className }), canLoad && "relative", hasFailed && failedClasses)}
         ref={ref}
         {...props}
-      />
+        onClick={handleClick}
+        data-error={hasFailed || undefined}
+        aria-busy={isLoading || undefined}
+        aria-disabled={isLoading || props["aria-disabled"] || undefined}
+      >
+        {canLoad ? (
+          <>
+            <span className={cn("inline-flex items-center", isLoading && "opacity-0")}>{content}</span>
+            {isLoading && (
+              <span className="absolute inset-0 flex items-center justify-center">
+                <Loader2Icon aria-hidden="true" className={cn("animate-spin", iconSize)} />
+              </span>
+            )}
+          </>
+        ) : (
+          content
+        )}
+      </button>
     )
   }
 )
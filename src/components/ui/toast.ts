@@ -0,0 +1,152 @@
+import * as React from "react";
+import type { AlertVariant } from "./alert";
+
+// A toast's look: any alert variant, or "loading", shown as an informative
+// alert with a spinner that stays until it is updated.
+export type ToastVariant = AlertVariant | "loading";
+
+// A button shown in a toast, e.g. "Undo". The toast closes when it is pressed.
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+// What a toast shows.
+// duration: How long the toast stays, in milliseconds. Infinity keeps it
+//   until it is dismissed. Defaults to 5 seconds, and to Infinity for
+//   loading toasts.
+// dismissible: Shows a close button. Defaults to true.
+// onDismiss: Called when the toast closes, for any reason.
+export interface ToastOptions {
+  variant?: ToastVariant;
+  title?: React.ReactNode;
+  description?: React.ReactNode;
+  action?: ToastAction;
+  duration?: number;
+  dismissible?: boolean;
+  onDismiss?: () => void;
+}
+
+// A toast on screen.
+// version: Increases when an update restarts the toast's timer.
+export interface Toast extends ToastOptions {
+  id: string;
+  variant: ToastVariant;
+  duration: number;
+  version: number;
+}
+
+// The toasts for each state of a promise. Success and error can be built
+// from the result.
+export interface PromiseToastOptions<T> {
+  loading: string | ToastOptions;
+  success: string | ToastOptions | ((value: T) => string | ToastOptions);
+  error: string | ToastOptions | ((reason: unknown) => string | ToastOptions);
+}
+
+export const defaultToastDuration = 5000;
+
+let toasts: Toast[] = [];
+let nextId = 0;
+const listeners = new Set<() => void>();
+
+const setToasts = (next: Toast[]) => {
+  toasts = next;
+  listeners.forEach((listener) => listener());
+};
+
+const toOptions = (content: string | ToastOptions): ToastOptions =>
+  typeof content === "string" ? { title: content } : content;
+
+const getDuration = ({ variant, duration }: ToastOptions) =>
+  duration ?? (variant === "loading" ? Infinity : defaultToastDuration);
+
+/**
+ * Shows a toast in the Toaster.
+ * @param {ToastOptions} options - What the toast shows and how long for.
+ * @returns {string} The toast's id, to update or dismiss it later.
+ */
+const show = (options: ToastOptions): string => {
+  const id = `toast-${++nextId}`;
+  const variant = options.variant ?? "informative";
+  setToasts([...toasts, { ...options, id, variant, duration: getDuration({ ...options, variant }), version: 0 }]);
+  return id;
+};
+
+/**
+ * Changes a toast on screen. Does nothing if it has been dismissed.
+ * @param {string} id - The toast's id.
+ * @param {ToastOptions} options - The fields to change. The toast keeps its
+ *   duration and timer unless a duration is given, or it starts or stops
+ *   loading, which restarts the timer with the new variant's duration.
+ */
+const update = (id: string, options: ToastOptions) => {
+  setToasts(
+    toasts.map((item) => {
+      if (item.id !== id) {
+        return item;
+      }
+      const variant = options.variant ?? item.variant;
+      const restarts = options.duration !== undefined || (variant === "loading") !== (item.variant === "loading");
+      return {
+        ...item,
+        ...options,
+        variant,
+        duration: restarts ? getDuration({ variant, duration: options.duration }) : item.duration,
+        version: restarts ? item.version + 1 : item.version,
+      };
+    })
+  );
+};
+
+/**
+ * Closes a toast, or every toast when no id is given.
+ * @param {string} id - The toast's id.
+ */
+const dismiss = (id?: string) => {
+  const closing = toasts.filter((item) => id === undefined || item.id === id);
+  if (closing.length === 0) {
+    return;
+  }
+  setToasts(toasts.filter((item) => !closing.includes(item)));
+  closing.forEach((item) => item.onDismiss?.());
+};
+
+/**
+ * Shows a toast for a promise: a loading toast while it is pending, which
+ * turns into a success or critical toast when it settles.
+ * @param {Promise<T>} pending - The promise to follow.
+ * @param {PromiseToastOptions<T>} options - The toast for each state.
+ * @returns {Promise<T>} The same promise, to keep chaining.
+ */
+const promise = <T>(pending: Promise<T>, options: PromiseToastOptions<T>): Promise<T> => {
+  const id = show({ ...toOptions(options.loading), variant: "loading" });
+  // The settled toast replaces the loading toast's content.
+  const replace = (variant: ToastVariant, content: string | ToastOptions) =>
+    update(id, { description: undefined, action: undefined, variant, ...toOptions(content) });
+  pending.then(
+    (value) => replace("success", typeof options.success === "function" ? options.success(value) : options.success),
+    (reason: unknown) => replace("critical", typeof options.error === "function" ? options.error(reason) : options.error)
+  );
+  return pending;
+};
+
+// Shows toasts from anywhere, e.g. event handlers and data-fetching code.
+// toast(options) shows one and returns its id; toast.update, toast.dismiss
+// and toast.promise work on toasts already shown.
+export const toast = Object.assign(show, { update, dismiss, promise });
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => toasts;
+
+/**
+ * Reads the toasts on screen, oldest first, and re-renders when they change.
+ * @returns {Toast[]} The toasts.
+ */
+export const useToasts = (): Toast[] => React.useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
@@ -0,0 +1,121 @@
+import { Meta, StoryObj } from "@storybook/react";
+import { Button } from "./button";
+import { toast } from "./toast";
+import { Toaster, type ToasterPosition } from "./toaster";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function ToasterDemo({ position, limit }: { position: ToasterPosition; limit: number }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        variant="outline"
+        onClick={() => toast({ title: "Profile saved", description: "Your changes are live." })}
+      >
+        Informative
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() =>
+          toast({
+            variant: "warning",
+            title: "Storage almost full",
+            description: "You have used 95% of your storage.",
+            duration: 10000,
+          })
+        }
+      >
+        Warning
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() =>
+          toast({
+            variant: "critical",
+            title: "Couldn't send the message",
+            description: "Check your connection and try again.",
+            action: { label: "Retry", onClick: () => toast({ title: "Message sent" }) },
+            duration: Infinity,
+          })
+        }
+      >
+        Critical with action
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() =>
+          toast({
+            title: "Conversation archived",
+            action: { label: "Undo", onClick: () => toast({ variant: "success", title: "Conversation restored" }) },
+          })
+        }
+      >
+        Undo
+      </Button>
+      <Button
+        variant="outline"
+        onClick={() =>
+          toast
+            .promise(
+              wait(2000).then(() => {
+                if (Math.random() < 0.3) {
+                  throw new Error("The server is not responding.");
+                }
+                return 3;
+              }),
+              {
+                loading: "Uploading files...",
+                success: (count) => `${count} files uploaded`,
+                error: (reason) => ({
+                  title: "Upload failed",
+                  description: reason instanceof Error ? reason.message : undefined,
+                }),
+              }
+            )
+            .catch(() => undefined)
+        }
+      >
+        Promise
+      </Button>
+      <Button variant="link" onClick={() => toast.dismiss()}>
+        Dismiss all
+      </Button>
+      <Toaster position={position} limit={limit} />
+    </div>
+  );
+}
+
+const meta = {
+  title: "Toaster",
+  component: ToasterDemo,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    position: {
+      control: {
+        type: "select",
+        options: ["top-left", "top-center", "top-right", "bottom-left", "bottom-center", "bottom-right"],
+      },
+    },
+  },
+} satisfies Meta<typeof ToasterDemo>;
+
+export default meta;
+
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  args: {
+    position: "bottom-right",
+    limit: 3,
+  },
+};
+
+export const TopCenter: Story = {
+  args: {
+    position: "top-center",
+    limit: 5,
+  },
+};
@@ -0,0 +1,145 @@
+import * as React from "react";
+import { Loader2Icon } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Alert, AlertActions, AlertDescription, AlertTitle, getAlertVariant, type AlertVariant } from "./alert";
+import { Button } from "./button";
+import { toast, useToasts, type Toast } from "./toast";
+
+type ToasterPosition = "top-left" | "top-center" | "top-right" | "bottom-left" | "bottom-center" | "bottom-right";
+
+// position: Where toasts appear. Defaults to the bottom right corner.
+// limit: How many toasts are shown at once. Older toasts wait off screen,
+//   and their timers start again when newer ones close.
+interface ToasterProps {
+  position?: ToasterPosition;
+  limit?: number;
+  className?: string;
+}
+
+const positionClasses: Record<ToasterPosition, string> = {
+  "top-left": "top-0 left-0 items-start",
+  "top-center": "top-0 left-1/2 -translate-x-1/2 items-center",
+  "top-right": "top-0 right-0 items-end",
+  "bottom-left": "bottom-0 left-0 items-start",
+  "bottom-center": "bottom-0 left-1/2 -translate-x-1/2 items-center",
+  "bottom-right": "bottom-0 right-0 items-end",
+};
+
+// Loading toasts look like informative alerts, with a spinner.
+const getToastAlertVariant = (item: Toast): AlertVariant =>
+  item.variant === "loading" ? "informative" : item.variant;
+
+/**
+ * One toast, which closes itself when its time is up. The timer stops while
+ * `paused` and resumes with the time that was left, and starts over when
+ * an update bumps the toast's version.
+ */
+const ToastItem = ({ item, paused }: { item: Toast; paused: boolean }) => {
+  const timing = React.useRef({ version: item.version, remaining: item.duration });
+
+  React.useEffect(() => {
+    if (timing.current.version !== item.version) {
+      timing.current = { version: item.version, remaining: item.duration };
+    }
+    if (paused || !Number.isFinite(timing.current.remaining)) {
+      return;
+    }
+    const startedAt = Date.now();
+    const timer = setTimeout(() => toast.dismiss(item.id), timing.current.remaining);
+    return () => {
+      clearTimeout(timer);
+      timing.current.remaining -= Date.now() - startedAt;
+    };
+  }, [paused, item.id, item.version, item.duration]);
+
+  const isLoading = item.variant === "loading";
+  return (
+    // Alerts are tinted, so give them an opaque background over the page.
+    <li className="pointer-events-auto w-full rounded-lg bg-white shadow-lg dark:bg-gray-900">
+      {/* The Toaster's live regions announce the toast, so the alert has no role of its own */}
+      <Alert
+        variant={getToastAlertVariant(item)}
+        icon={isLoading ? <Loader2Icon className="w-4 h-4 animate-spin" /> : undefined}
+        role={undefined}
+        aria-atomic="true"
+        dismissible={item.dismissible !== false}
+        onDismiss={() => toast.dismiss(item.id)}
+      >
+        {item.title && <AlertTitle>{item.title}</AlertTitle>}
+        {item.description && <AlertDescription>{item.description}</AlertDescription>}
+        {item.action && (
+          <AlertActions>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                item.action?.onClick();
+                toast.dismiss(item.id);
+              }}
+            >
+              {item.action.label}
+            </Button>
+          </AlertActions>
+        )}
+      </Alert>
+    </li>
+  );
+};
+
+/**
+ * Shows the toasts created with `toast()`. Render it once, near the root of
+ * the app. Hovering or focusing the toasts pauses their timers, so they
+ * don't close while being read.
+ *
+ * Toasts are announced by two live regions that are always rendered, since
+ * screen readers miss content added along with its region: a polite one,
+ * and an assertive one for variants with the "alert" role, such as critical.
+ */
+const Toaster = ({ position = "bottom-right", limit = 3, className }: ToasterProps) => {
+  const toasts = useToasts();
+  const [isHovered, setIsHovered] = React.useState(false);
+  const [isFocused, setIsFocused] = React.useState(false);
+
+  // The newest toasts sit nearest the edge of the screen.
+  const visible = toasts.slice(-limit);
+  const isTop = position.startsWith("top");
+  const ordered = isTop ? [...visible].reverse() : visible;
+  const isUrgent = (item: Toast) => getAlertVariant(getToastAlertVariant(item)).role === "alert";
+  const paused = isHovered || isFocused;
+  const renderList = (urgent: boolean) => (
+    <ol
+      key={urgent ? "assertive" : "polite"}
+      aria-live={urgent ? "assertive" : "polite"}
+      className="flex w-full flex-col gap-2 empty:hidden"
+    >
+      {ordered
+        .filter((item) => isUrgent(item) === urgent)
+        .map((item) => (
+          <ToastItem key={item.id} item={item} paused={paused} />
+        ))}
+    </ol>
+  );
+
+  return (
+    <section
+      aria-label="Notifications"
+      className={cn("pointer-events-none fixed z-50 flex w-full max-w-sm flex-col gap-2 p-4", positionClasses[position], className)}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onFocus={() => setIsFocused(true)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setIsFocused(false);
+        }
+      }}
+    >
+      {/* Urgent toasts sit nearest the edge of the screen */}
+      {isTop ? [renderList(true), renderList(false)] : [renderList(false), renderList(true)]}
+    </section>
+  );
+};
+Toaster.displayName = "Toaster";
+
+export { Toaster };
+export type { ToasterPosition, ToasterProps };
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react"
+
+/**
+ * State that can be either controlled by a prop or managed internally.
+ * When `value` is undefined the hook keeps its own state, seeded from
+ * `defaultValue`; `onChange` is called on every update in both modes.
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void
+): [T, (next: T) => void] {
+  const [internalValue, setInternalValue] = useState(defaultValue)
+  const isControlled = value !== undefined
+  const currentValue = isControlled ? value : internalValue
+
+  const setValue = useCallback(
+    (next: T) => {
+      if (!isControlled) {
+        setInternalValue(next)
+      }
+      onChange?.(next)
+    },
+    [isControlled, onChange]
+  )
+
+  return [currentValue, setValue]
+}
+
+/**
+ * Calls `onDismiss` when the user clicks outside `ref` or presses Escape,
+ * while `active` is true. Used to close menus and popovers.
+ */
+export function useDismiss(
+  ref: RefObject<HTMLElement>,
+  active: boolean,
+  onDismiss: () => void
+) {
+  const onDismissRef = useRef(onDismiss)
+  onDismissRef.current = onDismiss
+
+  useEffect(() => {
+    if (!active) {
+      return
+    }
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!ref.current?.contains(event.target as Node)) {
+        onDismissRef.current()
+      }
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onDismissRef.current()
+      }
+    }
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [ref, active])
+}